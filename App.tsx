@@ -1,33 +1,57 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { AppState, ResearchStep, AnalysisResult, GroundingChunk, ProviderConfig, ProviderType } from './types';
+import React, { useState, useRef, useEffect } from 'react';
+import { AppState, ProviderConfig, ProviderType, GroundingChunk, AnalysisResult, HistoryEntry } from './types';
 import { StepIndicator } from './components/StepIndicator';
 import { SourceBadge } from './components/SourceBadge';
 import { ProviderSettings } from './components/ProviderSettings';
+import { PlanReview } from './components/PlanReview';
+import { CorpusPanel } from './components/CorpusPanel';
+import { TemplateSelector } from './components/TemplateSelector';
+import { HistorySidebar } from './components/HistorySidebar';
+import { PromptSettings } from './components/PromptSettings';
+import { VerificationPanel } from './components/VerificationPanel';
+import { FollowUpChat } from './components/FollowUpChat';
+import { MarkdownView } from './components/MarkdownView';
 import { useTheme } from './hooks/useTheme';
 import { gemini } from './services/geminiService';
 import { minimax } from './services/minimaxService';
 import { ollama } from './services/ollamaService';
+import { openai } from './services/openaiService';
+import { anthropic, DEFAULT_ANTHROPIC_MODEL } from './services/anthropicService';
 import { IAIService } from './services/IAIService';
+import { splitSynthesis } from './services/streaming';
+import { DEFAULT_CONCURRENCY } from './services/researchOrchestrator';
+import { useResearch } from './hooks/useResearch';
+import { useHistory } from './hooks/useHistory';
+import { createHistoryEntry } from './services/historyStore';
+import { loadCheckpoint, clearCheckpoint, countCompleted, ResearchCheckpoint } from './services/checkpoints';
+import { sourceLabel, mergeSources } from './services/sources';
+import { CITATION_PATTERN, formatReference } from './services/citations';
+import { formatVerificationNote } from './services/verification';
+import { formatCredibility } from './services/credibility';
+import { buildReportDocument, downloadBlob, exportFileName } from './services/reportDocument';
+import { createPdfReport } from './services/pdfExport';
+import { createDocxReport } from './services/docxExport';
+import { createHtmlReport } from './services/htmlExport';
+import { getTemplate } from './services/templates';
+import { getApiKey, migrateApiKey } from './services/providerKeys';
+import { createSession, serializeSession, parseSession, sessionDuration, ResearchSession } from './services/session';
 
 const STORAGE_KEY = 'insightflow_provider_config';
 
 // Default config
 const getDefaultConfig = (): ProviderConfig => ({
   provider: 'gemini',
-  apiKey: '',
+  apiKeys: {},
   groupId: '',
   model: 'http://localhost:11434',
   searchApiKey: '',
+  maxConcurrentSteps: DEFAULT_CONCURRENCY,
   isValid: false
 });
 
 const App: React.FC = () => {
   const [query, setQuery] = useState('');
-  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [steps, setSteps] = useState<ResearchStep[]>([]);
-  const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
   const { theme, setTheme, resolvedTheme } = useTheme();
   const [providerConfig, setProviderConfig] = useState<ProviderConfig>(() => {
     try {
@@ -36,7 +60,7 @@ const App: React.FC = () => {
         const parsed = JSON.parse(saved);
         // Validate the parsed config has required fields
         if (parsed && parsed.provider) {
-          return parsed;
+          return migrateApiKey(parsed);
         }
       }
     } catch (e) {
@@ -47,6 +71,35 @@ const App: React.FC = () => {
   const [isValidating, setIsValidating] = useState(false);
   const [aiServiceInstance, setAiServiceInstance] = useState<IAIService>(gemini);
   const resultsEndRef = useRef<HTMLDivElement>(null);
+  const { entries: historyEntries, error: historyError, save: saveHistory, rename: renameHistory, remove: removeHistory } = useHistory();
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPrompts, setShowPrompts] = useState(false);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const savedResultRef = useRef<AnalysisResult | null>(null);
+  // Query and provider of the run in progress, captured when it starts so edits to the search box or settings do not leak into its history entry
+  const runOriginRef = useRef<{ query: string; provider: ProviderType; model: string } | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<'pdf' | 'docx' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Session loaded from a JSON export; offers re-synthesis from its steps
+  const [importedSession, setImportedSession] = useState<ResearchSession | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  // Run interrupted in an earlier session, offered for resuming on the start screen
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<ResearchCheckpoint | null>(() => loadCheckpoint());
+  const {
+    appState, steps, result, error, synthesisDraft,
+    startResearch, updatePlan, replanStep, confirmPlan, resumeResearch, restorePlan, stop, loadResult, updateResult, reset
+  } = useResearch(aiServiceInstance, {
+    concurrency: providerConfig.maxConcurrentSteps,
+    depth: providerConfig.researchDepth,
+    breadth: providerConfig.researchBreadth,
+    maxSteps: providerConfig.maxResearchSteps,
+    reviewPlan: providerConfig.reviewPlan,
+    verify: providerConfig.verifyClaims
+  });
+
+  const isBusy = appState === AppState.PLANNING || appState === AppState.RESEARCHING || appState === AppState.SYNTHESIZING || appState === AppState.VERIFYING;
+  // Same numbering the final report will use, so draft citations resolve while streaming
+  const draftSources = mergeSources(steps.filter(s => s.status === 'completed'));
 
   // Save config to localStorage when it changes
   useEffect(() => {
@@ -59,10 +112,68 @@ const App: React.FC = () => {
       case 'gemini': return 'Gemini 3 Pro';
       case 'minimax': return providerConfig.minimaxModel ? `MiniMax ${providerConfig.minimaxModel}` : 'MiniMax M2.5';
       case 'ollama': return `Ollama ${providerConfig.ollamaModel || 'llama3.2'}`;
+      case 'openai': return providerConfig.openaiModel ? `OpenAI-compatible ${providerConfig.openaiModel}` : 'OpenAI-compatible';
+      case 'anthropic': return `Anthropic ${providerConfig.anthropicModel || DEFAULT_ANTHROPIC_MODEL}`;
       default: return 'Unknown';
     }
   };
 
+  const recordRunOrigin = (runQuery: string) => {
+    runOriginRef.current = { query: runQuery, provider: providerConfig.provider, model: getProviderDisplayName() };
+  };
+
+  // Save every newly completed report to history; reopened reports are already stored
+  useEffect(() => {
+    if (!result || result === savedResultRef.current) return;
+    savedResultRef.current = result;
+    const origin = runOriginRef.current || { query, provider: providerConfig.provider, model: getProviderDisplayName() };
+    const entry = createHistoryEntry(origin.query, result, origin.provider, origin.model);
+    saveHistory(entry);
+    setActiveHistoryId(entry.id);
+  }, [result]);
+
+  const resumeCheckpoint = (checkpoint: ResearchCheckpoint) => {
+    setPendingCheckpoint(null);
+    setImportedSession(null);
+    setQuery(checkpoint.query);
+    setActiveHistoryId(null);
+    recordRunOrigin(checkpoint.query);
+    // A plan saved during review reopens for review; anything later resumes research
+    if (checkpoint.appState === AppState.REVIEWING) {
+      restorePlan(checkpoint.query, checkpoint.steps);
+    } else {
+      resumeResearch(checkpoint.query, checkpoint.steps);
+    }
+  };
+
+  // Resumes a cancelled or failed run with the query it was started with, not what the search box holds now
+  const resumeStoppedRun = () => {
+    const checkpoint = loadCheckpoint();
+    if (checkpoint) resumeCheckpoint(checkpoint);
+  };
+
+  const discardCheckpoint = () => {
+    clearCheckpoint();
+    setPendingCheckpoint(null);
+  };
+
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    savedResultRef.current = entry.result;
+    setImportedSession(null);
+    setQuery(entry.query);
+    setActiveHistoryId(entry.id);
+    loadResult(entry.result);
+    setShowHistory(false);
+  };
+
+  // Keeps the stored history entry in sync when a follow-up answer is added to the report
+  const foldFollowUp = (updated: AnalysisResult) => {
+    savedResultRef.current = updated;
+    updateResult(updated);
+    const entry = historyEntries.find(e => e.id === activeHistoryId);
+    if (entry) saveHistory({ ...entry, result: updated, updatedAt: Date.now() });
+  };
+
   // Validate and set up the AI service
   const handleValidate = async (): Promise<boolean> => {
     setIsValidating(true);
@@ -72,7 +183,7 @@ const App: React.FC = () => {
     try {
       switch (providerConfig.provider) {
         case 'gemini':
-          if (providerConfig.apiKey) {
+          if (getApiKey(providerConfig, providerConfig.provider)) {
             // Test Gemini by making a simple call
             service = gemini;
             isValid = true;
@@ -80,7 +191,7 @@ const App: React.FC = () => {
           break;
 
         case 'minimax':
-          if (providerConfig.apiKey && providerConfig.groupId) {
+          if (getApiKey(providerConfig, providerConfig.provider) && providerConfig.groupId) {
             try {
               await minimax.generateResearchPlan("test");
               isValid = true;
@@ -98,6 +209,28 @@ const App: React.FC = () => {
             console.error("Ollama validation failed:", e);
           }
           break;
+
+        case 'openai':
+          if (providerConfig.openaiModel) {
+            try {
+              await openai.generateText("You are a connectivity check.", "Reply with OK.", { temperature: 0 });
+              isValid = true;
+            } catch (e) {
+              console.error("OpenAI-compatible validation failed:", e);
+            }
+          }
+          break;
+
+        case 'anthropic':
+          if (getApiKey(providerConfig, providerConfig.provider)) {
+            try {
+              await anthropic.generateText("You are a connectivity check.", "Reply with OK.", { temperature: 0 });
+              isValid = true;
+            } catch (e) {
+              console.error("Anthropic validation failed:", e);
+            }
+          }
+          break;
       }
     } catch (e) {
       console.error("Validation error:", e);
@@ -119,21 +252,39 @@ const App: React.FC = () => {
         case 'ollama':
           setAiServiceInstance(ollama);
           break;
+        case 'openai':
+          setAiServiceInstance(openai);
+          break;
+        case 'anthropic':
+          setAiServiceInstance(anthropic);
+          break;
       }
     }
 
     return isValid;
   };
 
-  const scrollToBottom = () => {
-    resultsEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  // Bring the report into view once research hands over to synthesis
+  useEffect(() => {
+    if (appState === AppState.SYNTHESIZING) {
+      resultsEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }
+  }, [appState]);
+
+  // Query, provider and model the shown report was produced with. Every export
+  // uses them rather than the search box and settings, which may have changed since
+  const getReportOrigin = (): { query: string; provider: ProviderType; model: string } => {
+    const reopened = historyEntries.find(e => e.id === activeHistoryId) || importedSession;
+    if (reopened) return { query: reopened.query, provider: reopened.provider, model: reopened.model };
+    return runOriginRef.current || { query, provider: providerConfig.provider, model: getProviderDisplayName() };
   };
 
   // Export to Markdown
   const exportToMarkdown = () => {
     if (!result) return;
+    const origin = getReportOrigin();
 
-    const markdown = `# Research Report: ${query}
+    const markdown = `# Research Report: ${origin.query}
 
 ## Executive Summary
 ${result.summary}
@@ -141,27 +292,25 @@ ${result.summary}
 ## Detailed Analysis
 ${result.deepDive}
 
-## Sources
-${result.allSources.map(s => `- [${s.web?.title || 'Source'}](${s.web?.uri})`).join('\n')}
+${result.verification ? `${formatVerificationNote(result.verification)}\n` : ''}## References
+${result.allSources.map((s, i) => {
+  const label = s.document ? `${sourceLabel(s)} (local document)` : `[${sourceLabel(s)}](${s.web?.uri})`;
+  return `${i + 1}. ${label}${s.credibility ? ` (credibility ${formatCredibility(s.credibility)})` : ''}`;
+}).join('\n')}
 
 ---
-*Generated by InsightFlow AI - ${getProviderDisplayName()}*
+*Generated by InsightFlow AI - ${origin.model}*
 `;
 
-    const blob = new Blob([markdown], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `research-report-${Date.now()}.md`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), exportFileName('md'));
   };
 
   // Export to Text
   const exportToText = () => {
     if (!result) return;
+    const origin = getReportOrigin();
 
-    const text = `RESEARCH REPORT: ${query.toUpperCase()}
+    const text = `RESEARCH REPORT: ${origin.query.toUpperCase()}
 ${'='.repeat(50)}
 
 EXECUTIVE SUMMARY
@@ -171,83 +320,115 @@ ${result.summary}
 DETAILED ANALYSIS
 ${'-'.repeat(20)}
 ${result.deepDive}
-
-SOURCES
+${result.verification ? `\n${formatVerificationNote(result.verification)}` : ''}
+REFERENCES
 ${'-'.repeat(20)}
-${result.allSources.map(s => `${s.web?.title || 'Source'}: ${s.web?.uri}`).join('\n')}
+${result.allSources.map(formatReference).join('\n')}
 
 ---
-Generated by InsightFlow AI - ${getProviderDisplayName()}
+Generated by InsightFlow AI - ${origin.model}
 `;
 
-    const blob = new Blob([text], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `research-report-${Date.now()}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([text], { type: 'text/plain' }), exportFileName('txt'));
   };
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!query.trim() || !providerConfig.isValid) return;
+  // Export to PDF or DOCX, including the step appendix and bibliography
+  const exportToDocument = async (format: 'pdf' | 'docx') => {
+    if (!result) return;
+    setExportingFormat(format);
+    setExportError(null);
+    try {
+      const origin = getReportOrigin();
+      const report = buildReportDocument(origin.query, result, origin.model);
+      const blob = format === 'pdf' ? await createPdfReport(report) : await createDocxReport(report);
+      downloadBlob(blob, exportFileName(format));
+    } catch (e: any) {
+      console.error(`${format.toUpperCase()} export failed:`, e);
+      setExportError(`${format.toUpperCase()} export failed: ${e.message || 'unknown error'}`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // Export a single HTML file that works offline, in the current theme
+  const exportToHtml = () => {
+    if (!result) return;
+    const origin = getReportOrigin();
+    const html = createHtmlReport(buildReportDocument(origin.query, result, origin.model), theme);
+    downloadBlob(new Blob([html], { type: 'text/html' }), exportFileName('html'));
+  };
 
-    setAppState(AppState.PLANNING);
-    setError(null);
-    setResult(null);
-    
+  // Export the full session (steps, report, settings) as versioned JSON
+  const exportToJson = () => {
+    if (!result) return;
+    const origin = getReportOrigin();
+    const session = createSession(origin.query, result, origin.provider, origin.model, providerConfig);
+    downloadBlob(new Blob([serializeSession(session)], { type: 'application/json' }), exportFileName('json'));
+  };
+
+  const importSession = async (file: File) => {
+    setImportError(null);
     try {
-      // 1. Plan
-      const planSteps = await aiServiceInstance.generateResearchPlan(query);
-      setSteps(planSteps);
-      setAppState(AppState.RESEARCHING);
-
-      // 2. Research (Iterative)
-      const finalSteps: ResearchStep[] = [...planSteps];
-      let allSources: GroundingChunk[] = [];
-
-      for (let i = 0; i < finalSteps.length; i++) {
-        const currentStep = finalSteps[i];
-        
-        // Update state to 'searching'
-        finalSteps[i] = { ...currentStep, status: 'searching' };
-        setSteps([...finalSteps]);
-
-        const researchData = await aiServiceInstance.executeResearchStep(currentStep.query);
-        
-        // Update step with result
-        finalSteps[i] = { 
-          ...finalSteps[i], 
-          status: 'completed', 
-          result: researchData.result,
-          sources: researchData.sources
-        };
-        allSources = [...allSources, ...researchData.sources];
-        setSteps([...finalSteps]);
-        scrollToBottom();
-      }
+      const session = parseSession(await file.text());
+      savedResultRef.current = session.result;
+      setImportedSession(session);
+      setPendingCheckpoint(null);
+      setActiveHistoryId(null);
+      setQuery(session.query);
+      loadResult(session.result);
+    } catch (e: any) {
+      console.error('Session import failed:', e);
+      setImportError(e.message || 'Could not import the session');
+    }
+  };
 
-      // 3. Synthesize
-      setAppState(AppState.SYNTHESIZING);
-      const synthesis = await aiServiceInstance.synthesizeAnalysis(query, finalSteps);
-      
-      // Deduplicate sources
-      const uniqueSources = Array.from(new Map(allSources.map(s => [s.web?.uri, s])).values());
-
-      setResult({
-        summary: synthesis.summary,
-        deepDive: synthesis.deepDive,
-        steps: finalSteps,
-        allSources: uniqueSources
-      });
-      setAppState(AppState.COMPLETED);
+  // Synthesizes the imported session again; steps that did not complete are researched again
+  const resynthesizeSession = (session: ResearchSession) => {
+    setImportedSession(null);
+    recordRunOrigin(session.query);
+    resumeResearch(session.query, session.steps);
+  };
 
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message || 'An unexpected error occurred during research.');
-      setAppState(AppState.ERROR);
+  // Replaces [n] markers with links to the numbered sources; markers are left as text while sources are unknown
+  const renderInline = (text: string, sources: GroundingChunk[]): React.ReactNode => {
+    if (sources.length === 0) return text;
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+      parts.push(text.slice(last, match.index));
+      match[1].split(',').map(n => parseInt(n.trim(), 10)).forEach(n => {
+        const source = sources[n - 1];
+        if (!source) {
+          parts.push(`[${n}]`);
+          return;
+        }
+        parts.push(
+          <a
+            key={`${match.index}-${n}`}
+            href={source.web?.uri || `#source-${n}`}
+            target={source.web ? '_blank' : undefined}
+            rel="noopener noreferrer"
+            title={sourceLabel(source)}
+            className="text-sm align-super text-blue-400 hover:text-blue-300 no-underline font-semibold"
+          >
+            [{n}]
+          </a>
+        );
+      });
+      last = match.index + match[0].length;
     }
+    parts.push(text.slice(last));
+    return parts;
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim() || !providerConfig.isValid) return;
+    setActiveHistoryId(null);
+    setPendingCheckpoint(null);
+    setImportedSession(null);
+    recordRunOrigin(query);
+    await startResearch(query);
   };
 
   return (
@@ -260,8 +441,59 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
         isValidating={isValidating}
       />
 
-      {/* Theme Toggle */}
+      {/* History Sidebar */}
+      <HistorySidebar
+        isOpen={showHistory}
+        entries={historyEntries}
+        activeId={activeHistoryId}
+        error={historyError}
+        onClose={() => setShowHistory(false)}
+        onOpen={openHistoryEntry}
+        onRename={renameHistory}
+        onDelete={(id) => {
+          removeHistory(id);
+          if (id === activeHistoryId) setActiveHistoryId(null);
+        }}
+      />
+
+      {/* Prompt Library */}
+      <PromptSettings isOpen={showPrompts} onClose={() => setShowPrompts(false)} />
+
+      {/* Theme Toggle and History */}
       <div className="fixed top-4 left-4 flex items-center gap-2 z-40">
+        <button
+          onClick={() => setShowHistory(true)}
+          disabled={isBusy}
+          className="p-2 rounded-lg bg-[var(--bg-card)] border border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:border-[var(--border-light)] transition-all disabled:opacity-50"
+          title="Research history"
+        >
+          <i className="fas fa-clock-rotate-left"></i>
+        </button>
+        <button
+          onClick={() => setShowPrompts(true)}
+          disabled={isBusy}
+          className="p-2 rounded-lg bg-[var(--bg-card)] border border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:border-[var(--border-light)] transition-all disabled:opacity-50"
+          title="Prompt library"
+        >
+          <i className="fas fa-sliders"></i>
+        </button>
+        <label
+          className={`p-2 rounded-lg bg-[var(--bg-card)] border border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:border-[var(--border-light)] transition-all ${isBusy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+          title="Import research session (JSON)"
+        >
+          <i className="fas fa-file-import"></i>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            disabled={isBusy}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importSession(file);
+            }}
+          />
+        </label>
         <button
           onClick={() => setTheme(theme === 'dark' ? 'light' : theme === 'light' ? 'system' : 'dark')}
           className="p-2 rounded-lg bg-[var(--bg-card)] border border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:border-[var(--border-light)] transition-all"
@@ -275,6 +507,17 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
         </button>
       </div>
 
+      {/* Session Import Error */}
+      {importError && (
+        <div className="fixed top-16 left-4 z-40 max-w-md bg-red-500/10 border border-red-500/30 backdrop-blur p-4 rounded-xl flex items-start gap-3">
+          <i className="fas fa-exclamation-triangle text-red-400 mt-0.5"></i>
+          <p className="flex-1 text-sm text-red-300 break-words">{importError}</p>
+          <button onClick={() => setImportError(null)} title="Dismiss" className="text-red-400 hover:text-red-300">
+            <i className="fas fa-xmark"></i>
+          </button>
+        </div>
+      )}
+
       {/* Header */}
       <header className="w-full max-w-5xl flex items-center justify-between mb-12">
         <div className="flex items-center gap-3">
@@ -308,6 +551,30 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
                   Please configure your AI provider using the settings button (top right)
                 </p>
               )}
+              {pendingCheckpoint && (
+                <div className="mt-6 mx-auto max-w-xl bg-blue-600/10 border border-blue-500/30 p-4 rounded-2xl text-left flex items-start gap-4">
+                  <i className="fas fa-rotate-right text-blue-400 mt-1"></i>
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-blue-100">Unfinished Research</h3>
+                    <p className="text-sm text-slate-400 mt-1">
+                      "{pendingCheckpoint.query}": {pendingCheckpoint.appState === AppState.REVIEWING
+                        ? `plan of ${pendingCheckpoint.steps.length} steps awaiting review`
+                        : `${countCompleted(pendingCheckpoint)} of ${pendingCheckpoint.steps.length} steps completed`}
+                      {' '}({new Date(pendingCheckpoint.updatedAt).toLocaleString()}).
+                    </p>
+                    <div className="mt-3 flex items-center gap-4">
+                      <button
+                        onClick={() => resumeCheckpoint(pendingCheckpoint)}
+                        disabled={!providerConfig.isValid}
+                        className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-xs font-semibold rounded-lg transition-all"
+                      >
+                        Resume
+                      </button>
+                      <button onClick={discardCheckpoint} className="text-xs font-bold text-slate-400 underline hover:no-underline">Discard</button>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -319,18 +586,44 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
               type="text"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              disabled={appState !== AppState.IDLE && appState !== AppState.COMPLETED && appState !== AppState.ERROR}
+              disabled={isBusy || appState === AppState.REVIEWING}
               placeholder="Enter a topic for deep analysis (e.g., 'Evolution of quantum computing in the next decade')"
               className="w-full bg-slate-800/80 border-2 border-slate-700/50 focus:border-blue-500/50 py-5 pl-14 pr-32 outline-none text-lg transition-all text-slate-100 placeholder:text-slate-500"
             />
-            <button 
-              type="submit"
-              disabled={!providerConfig.isValid || (appState !== AppState.IDLE && appState !== AppState.COMPLETED && appState !== AppState.ERROR)}
-              className="absolute right-3 top-2 bottom-2 px-6 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-semibold rounded-xl transition-all shadow-lg"
-            >
-              {appState === AppState.IDLE || appState === AppState.COMPLETED || appState === AppState.ERROR ? 'Research' : 'Busy...'}
-            </button>
+            {isBusy ? (
+              <button 
+                type="button"
+                onClick={stop}
+                className="absolute right-3 top-2 bottom-2 px-6 bg-red-600 hover:bg-red-500 text-white font-semibold rounded-xl transition-all shadow-lg flex items-center gap-2"
+              >
+                <i className="fas fa-stop"></i>
+                Stop
+              </button>
+            ) : (
+              <button 
+                type="submit"
+                disabled={!providerConfig.isValid || appState === AppState.REVIEWING}
+                className="absolute right-3 top-2 bottom-2 px-6 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-semibold rounded-xl transition-all shadow-lg"
+              >
+                Research
+              </button>
+            )}
           </form>
+
+          {appState !== AppState.REVIEWING && (
+            <div className="mt-4 space-y-4">
+              <TemplateSelector
+                value={getTemplate(providerConfig.researchTemplate).id}
+                onChange={(researchTemplate) => setProviderConfig(prev => ({ ...prev, researchTemplate }))}
+                disabled={isBusy}
+              />
+              <CorpusPanel
+                mode={providerConfig.corpusMode || 'web'}
+                onModeChange={(corpusMode) => setProviderConfig(prev => ({ ...prev, corpusMode }))}
+                disabled={isBusy}
+              />
+            </div>
+          )}
         </div>
 
         {/* Dashboard Grid */}
@@ -348,7 +641,7 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
                   <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Verified Sources</h3>
                   <div className="flex flex-wrap gap-2">
                     {result.allSources.map((source, idx) => (
-                      <SourceBadge key={idx} source={source} />
+                      <SourceBadge key={idx} source={source} index={idx + 1} />
                     ))}
                     {result.allSources.length === 0 && (
                       <span className="text-xs text-slate-500 italic">No direct links available.</span>
@@ -361,7 +654,7 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
             {/* Main Content Area */}
             <div className="lg:col-span-3 space-y-6">
               {/* Progress View */}
-              {(appState === AppState.PLANNING || appState === AppState.RESEARCHING || appState === AppState.SYNTHESIZING) && (
+              {isBusy && (
                 <div className="glass-panel p-8 rounded-2xl text-center space-y-6 animate-pulse-slow">
                   <div className="flex justify-center">
                     <div className="relative">
@@ -376,12 +669,68 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
                       {appState === AppState.PLANNING && 'Structuring research objectives...'}
                       {appState === AppState.RESEARCHING && 'Executing search steps & analyzing data...'}
                       {appState === AppState.SYNTHESIZING && 'Synthesizing final report...'}
+                      {appState === AppState.VERIFYING && 'Verifying claims against the research findings...'}
                     </h3>
                     <p className="text-slate-400 mt-2">Our agent is cross-referencing sources and evaluating details.</p>
                   </div>
                 </div>
               )}
 
+              {/* Plan Review */}
+              {appState === AppState.REVIEWING && (
+                <PlanReview
+                  steps={steps}
+                  onChange={updatePlan}
+                  onReplan={replanStep}
+                  onConfirm={confirmPlan}
+                  onCancel={reset}
+                />
+              )}
+
+              {/* Live Step Findings */}
+              {!result && steps.some(s => s.result) && (
+                <div className="glass-panel p-6 rounded-2xl space-y-5">
+                  <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Live Findings</h3>
+                  {steps.filter(s => s.result).map((step) => (
+                    <div key={step.id} className="border-l-2 border-blue-500/40 pl-4">
+                      <p className="text-sm font-semibold text-slate-200 mb-2">{step.query}</p>
+                      <p className="text-sm text-slate-400 whitespace-pre-wrap leading-relaxed">{step.result}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Live Synthesis Draft */}
+              {(appState === AppState.SYNTHESIZING || appState === AppState.VERIFYING) && synthesisDraft && (
+                <div className="glass-panel p-8 md:p-12 rounded-2xl shadow-xl prose prose-invert max-w-none">
+                  <p className="text-slate-200 text-lg leading-relaxed font-medium italic mb-8">
+                    {renderInline(splitSynthesis(synthesisDraft).summary, draftSources)}
+                  </p>
+                  <div className="text-slate-300 leading-8 text-lg">
+                    <MarkdownView text={splitSynthesis(synthesisDraft).deepDive} sources={draftSources} />
+                  </div>
+                </div>
+              )}
+
+              {/* Cancelled State */}
+              {appState === AppState.CANCELLED && (
+                <div className="bg-slate-500/10 border border-slate-500/20 p-6 rounded-2xl flex items-start gap-4">
+                  <i className="fas fa-ban text-slate-400 mt-1"></i>
+                  <div>
+                    <h3 className="font-semibold text-slate-300">Research Stopped</h3>
+                    <p className="text-sm text-slate-400 mt-1">
+                      {steps.filter(s => s.status === 'completed').length} of {steps.length} steps finished before the run was cancelled. Partial findings are kept below.
+                    </p>
+                    <div className="mt-4 flex items-center gap-4">
+                      {steps.length > 0 && (
+                        <button onClick={resumeStoppedRun} className="text-xs font-bold text-blue-400 underline hover:no-underline">Resume</button>
+                      )}
+                      <button onClick={reset} className="text-xs font-bold text-slate-300 underline hover:no-underline">Start Over</button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Error State */}
               {error && (
                 <div className="bg-red-500/10 border border-red-500/20 p-6 rounded-2xl flex items-start gap-4">
@@ -389,7 +738,12 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
                   <div>
                     <h3 className="font-semibold text-red-400">Analysis Halted</h3>
                     <p className="text-sm text-red-300/80 mt-1">{error}</p>
-                    <button onClick={() => setAppState(AppState.IDLE)} className="mt-4 text-xs font-bold text-red-400 underline hover:no-underline">Reset and Try Again</button>
+                    <div className="mt-4 flex items-center gap-4">
+                      {steps.length > 0 && (
+                        <button onClick={resumeStoppedRun} className="text-xs font-bold text-blue-400 underline hover:no-underline">Resume from Last Step</button>
+                      )}
+                      <button onClick={reset} className="text-xs font-bold text-red-400 underline hover:no-underline">Reset and Try Again</button>
+                    </div>
                   </div>
                 </div>
               )}
@@ -397,6 +751,29 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
               {/* Result View */}
               {result && (
                 <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8 duration-1000">
+                  {/* Imported Session Notice */}
+                  {importedSession && (
+                    <div className="bg-slate-800/50 border border-slate-700 p-5 rounded-2xl flex items-start gap-4">
+                      <i className="fas fa-file-import text-blue-400 mt-1"></i>
+                      <div className="flex-1">
+                        <h3 className="font-semibold text-slate-200">Imported Session</h3>
+                        <p className="text-sm text-slate-400 mt-1">
+                          {importedSession.model}, exported {new Date(importedSession.exportedAt).toLocaleString()}
+                          {sessionDuration(importedSession) !== undefined && `, researched in ${sessionDuration(importedSession)}s`}.
+                          {' '}{importedSession.steps.filter(s => s.status === 'completed').length} of {importedSession.steps.length} steps completed.
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => resynthesizeSession(importedSession)}
+                        disabled={!providerConfig.isValid}
+                        title="Write the report again from the imported findings with the current provider"
+                        className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-xs font-semibold rounded-lg transition-all"
+                      >
+                        Re-synthesize
+                      </button>
+                    </div>
+                  )}
+
                   {/* Executive Summary */}
                   <div className="bg-blue-600/10 border border-blue-500/30 p-8 rounded-2xl">
                     <div className="flex items-center gap-3 mb-4">
@@ -406,29 +783,52 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
                       <h3 className="text-lg font-bold text-blue-100 uppercase tracking-wide">Executive Summary</h3>
                     </div>
                     <p className="text-slate-200 text-lg leading-relaxed font-medium italic">
-                      "{result.summary}"
+                      "{renderInline(result.summary, result.allSources)}"
                     </p>
                   </div>
 
-                  {/* Deep Dive (Markdown-like rendering) */}
+                  {/* Partial Report Notice */}
+                  {result.steps.some(s => s.status === 'failed') && (
+                    <div className="bg-amber-500/10 border border-amber-500/20 p-5 rounded-2xl flex items-start gap-4">
+                      <i className="fas fa-exclamation-circle text-amber-400 mt-1"></i>
+                      <div>
+                        <h3 className="font-semibold text-amber-400">Partial Report</h3>
+                        <p className="text-sm text-amber-300/80 mt-1">
+                          {result.steps.filter(s => s.status === 'failed').length} of {result.steps.length} research steps failed after retries.
+                          See "Research Gaps" at the end of the analysis for what is not covered.
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Claim Verification Summary */}
+                  {result.verification && (
+                    <VerificationPanel report={result.verification} />
+                  )}
+
+                  {/* Deep Dive */}
                   <div className="glass-panel p-8 md:p-12 rounded-2xl shadow-xl prose prose-invert max-w-none">
                     <h2 className="text-3xl font-bold mb-8 border-b border-slate-700 pb-4">Detailed Analysis</h2>
-                    <div className="whitespace-pre-wrap text-slate-300 leading-8 text-lg">
-                      {result.deepDive.split('\n').map((line, i) => {
-                        if (line.startsWith('# ')) return <h1 key={i} className="text-4xl font-bold mt-8 mb-4 text-blue-100">{line.replace('# ', '')}</h1>;
-                        if (line.startsWith('## ')) return <h2 key={i} className="text-2xl font-bold mt-8 mb-3 text-blue-200">{line.replace('## ', '')}</h2>;
-                        if (line.startsWith('### ')) return <h3 key={i} className="text-xl font-bold mt-6 mb-2 text-blue-300">{line.replace('### ', '')}</h3>;
-                        if (line.startsWith('- ') || line.startsWith('* ')) return <li key={i} className="ml-4 mb-2">{line.substring(2)}</li>;
-                        if (line.trim() === '') return <div key={i} className="h-4" />;
-                        return <p key={i} className="mb-4">{line}</p>;
-                      })}
+                    <div className="text-slate-300 leading-8 text-lg">
+                      <MarkdownView text={result.deepDive} sources={result.allSources} claims={result.verification?.claims} toc />
                     </div>
                   </div>
 
+                  {/* Follow-up Chat */}
+                  <FollowUpChat
+                    key={activeHistoryId || 'current'}
+                    service={aiServiceInstance}
+                    query={query}
+                    result={result}
+                    onFold={foldFollowUp}
+                  />
+
                   {/* Export Buttons */}
-                  <div className="flex items-center justify-between p-6 glass-panel rounded-2xl">
-                    <p className="text-sm text-slate-400">Analysis complete. Ready for another query?</p>
-                    <div className="flex items-center gap-3">
+                  <div className="flex flex-wrap items-center justify-between gap-4 p-6 glass-panel rounded-2xl">
+                    {exportError
+                      ? <p className="text-sm text-red-400">{exportError}</p>
+                      : <p className="text-sm text-slate-400">Analysis complete. Ready for another query?</p>}
+                    <div className="flex flex-wrap items-center gap-3">
                       <button 
                         onClick={exportToMarkdown}
                         className="px-4 py-2 bg-green-600 hover:bg-green-500 text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
@@ -444,7 +844,37 @@ Generated by InsightFlow AI - ${getProviderDisplayName()}
                         Export TXT
                       </button>
                       <button 
-                        onClick={() => { setAppState(AppState.IDLE); setQuery(''); setResult(null); }}
+                        onClick={exportToHtml}
+                        className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
+                      >
+                        <i className="fas fa-globe"></i>
+                        Export HTML
+                      </button>
+                      <button 
+                        onClick={exportToJson}
+                        className="px-4 py-2 bg-indigo-700 hover:bg-indigo-600 text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
+                      >
+                        <i className="fas fa-file-code"></i>
+                        Export JSON
+                      </button>
+                      <button 
+                        onClick={() => exportToDocument('pdf')}
+                        disabled={exportingFormat !== null}
+                        className="px-4 py-2 bg-red-700 hover:bg-red-600 disabled:opacity-60 text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
+                      >
+                        <i className={`fas ${exportingFormat === 'pdf' ? 'fa-circle-notch fa-spin' : 'fa-file-pdf'}`}></i>
+                        Export PDF
+                      </button>
+                      <button 
+                        onClick={() => exportToDocument('docx')}
+                        disabled={exportingFormat !== null}
+                        className="px-4 py-2 bg-blue-700 hover:bg-blue-600 disabled:opacity-60 text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
+                      >
+                        <i className={`fas ${exportingFormat === 'docx' ? 'fa-circle-notch fa-spin' : 'fa-file-word'}`}></i>
+                        Export DOCX
+                      </button>
+                      <button 
+                        onClick={() => { reset(); setQuery(''); setActiveHistoryId(null); setImportedSession(null); }}
                         className="px-5 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold rounded-lg transition-all"
                       >
                         New Search
@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { CorpusMode } from '../types';
+import { SUPPORTED_EXTENSIONS } from '../services/corpus';
+import { useCorpus } from '../hooks/useCorpus';
+
+interface CorpusPanelProps {
+  mode: CorpusMode;
+  onModeChange: (mode: CorpusMode) => void;
+  disabled?: boolean;
+}
+
+const MODES: { value: CorpusMode; label: string }[] = [
+  { value: 'web', label: 'Web' },
+  { value: 'both', label: 'Web + Documents' },
+  { value: 'corpus', label: 'Documents only' }
+];
+
+export const CorpusPanel: React.FC<CorpusPanelProps> = ({ mode, onModeChange, disabled }) => {
+  const { documents, isIndexing, errors, addFiles, removeDocument, clear } = useCorpus();
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    addFiles(Array.from(fileList));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div className="glass-panel p-4 rounded-2xl space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
+          <i className="fas fa-folder-open mr-2"></i>
+          Local Documents
+        </h3>
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+          {MODES.map(m => (
+            <button
+              key={m.value}
+              type="button"
+              onClick={() => onModeChange(m.value)}
+              disabled={disabled}
+              className={`px-3 py-1.5 transition-colors disabled:opacity-50 ${
+                mode === m.value ? 'bg-blue-600 text-white' : 'bg-slate-800/50 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && inputRef.current?.click()}
+        className={`border-2 border-dashed rounded-xl p-4 text-center text-sm cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-500/10 text-blue-300' : 'border-slate-700 text-slate-500 hover:border-slate-500'
+        }`}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={SUPPORTED_EXTENSIONS.join(',')}
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+          className="hidden"
+        />
+        {isIndexing ? (
+          <span><i className="fas fa-spinner fa-spin mr-2"></i>Indexing documents...</span>
+        ) : (
+          <span>Drop PDF, Markdown or text files here, or click to browse. Files stay in your browser.</span>
+        )}
+      </div>
+
+      {errors.map((error, idx) => (
+        <p key={idx} className="text-xs text-red-400">{error}</p>
+      ))}
+
+      {documents.length > 0 && (
+        <div className="space-y-1">
+          {documents.map(doc => (
+            <div key={doc.id} className="flex items-center gap-2 text-xs text-slate-300">
+              <i className={`fas ${doc.type === 'pdf' ? 'fa-file-pdf text-red-400' : 'fa-file-lines text-slate-400'}`}></i>
+              <span className="flex-1 truncate">{doc.fileName}</span>
+              <span className="text-slate-500">
+                {doc.pageCount ? `${doc.pageCount} pages, ` : ''}{doc.chunkCount} chunks
+              </span>
+              <button
+                type="button"
+                onClick={() => removeDocument(doc.id)}
+                disabled={disabled}
+                title="Remove document"
+                className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30"
+              >
+                <i className="fas fa-xmark"></i>
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={clear}
+            disabled={disabled}
+            className="text-xs text-slate-500 hover:text-slate-300 disabled:opacity-30"
+          >
+            Remove all
+          </button>
+        </div>
+      )}
+
+      {mode !== 'web' && documents.length === 0 && (
+        <p className="text-xs text-amber-400">No documents loaded yet; research will use web search until you add some.</p>
+      )}
+    </div>
+  );
+};
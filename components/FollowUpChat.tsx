@@ -0,0 +1,152 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { AnalysisResult, ReportChatMessage } from '../types';
+import { IAIService } from '../services/IAIService';
+import { answerFollowUp, foldIntoReport } from '../services/reportChat';
+import { isAbortError } from '../services/abort';
+import { MarkdownView } from './MarkdownView';
+
+interface FollowUpChatProps {
+  service: IAIService;
+  query: string;
+  result: AnalysisResult;
+  onFold: (updated: AnalysisResult) => void;
+}
+
+const newMessageId = () => `msg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const FollowUpChat: React.FC<FollowUpChatProps> = ({ service, query, result, onFold }) => {
+  const [messages, setMessages] = useState<ReportChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [allowResearch, setAllowResearch] = useState(true);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Abort a pending answer when the panel unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const ask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isAnswering) return;
+
+    const userMessage: ReportChatMessage = { id: newMessageId(), role: 'user', content: text };
+    const history = messages;
+    setMessages(prev => [...prev, userMessage]);
+    setQuestion('');
+    setError(null);
+    setIsAnswering(true);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    try {
+      const answer = await answerFollowUp(service, query, result, history, text, allowResearch, controller.signal);
+      setMessages(prev => [...prev, {
+        id: newMessageId(),
+        role: 'assistant',
+        content: answer.answer || 'No answer was returned.',
+        question: text,
+        step: answer.step,
+        sources: answer.sources
+      }]);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error('Follow-up error:', err);
+        setError(err.message || 'Could not answer the question');
+      }
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsAnswering(false);
+    }
+  };
+
+  const fold = (message: ReportChatMessage) => {
+    onFold(foldIntoReport(result, message));
+    setMessages(prev => prev.map(m => m.id === message.id ? { ...m, folded: true } : m));
+  };
+
+  return (
+    <div className="glass-panel p-6 md:p-8 rounded-2xl space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-bold text-slate-200 flex items-center gap-2">
+          <i className="fas fa-comments text-blue-400"></i>
+          Follow-up Questions
+        </h3>
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allowResearch}
+            onChange={(e) => setAllowResearch(e.target.checked)}
+            className="accent-blue-500"
+          />
+          Research further when the report does not cover a question
+        </label>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-3">
+          {messages.map(message => message.role === 'user' ? (
+            <div key={message.id} className="flex justify-end">
+              <p className="max-w-[85%] bg-blue-600/20 border border-blue-500/30 rounded-xl px-4 py-2 text-sm text-blue-100">
+                {message.content}
+              </p>
+            </div>
+          ) : (
+            <div key={message.id} className="bg-slate-800/50 border border-slate-700 rounded-xl px-4 py-3 space-y-2">
+              {message.step && (
+                <p className="text-[11px] text-slate-500 flex items-center gap-2">
+                  <i className="fas fa-magnifying-glass"></i>
+                  Researched: {message.step.query}
+                </p>
+              )}
+              <div className="text-sm text-slate-300 leading-7">
+                <MarkdownView text={message.content} sources={message.sources || result.allSources} />
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => fold(message)}
+                  disabled={message.folded}
+                  className="text-xs font-semibold text-blue-400 hover:text-blue-300 disabled:text-slate-500 disabled:cursor-default flex items-center gap-1"
+                >
+                  <i className={`fas ${message.folded ? 'fa-check' : 'fa-plus'}`}></i>
+                  {message.folded ? 'Added to report' : 'Add to report'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <form onSubmit={ask} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question about this report"
+          disabled={isAnswering}
+          className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none disabled:opacity-60"
+        />
+        {isAnswering ? (
+          <button
+            type="button"
+            onClick={() => controllerRef.current?.abort()}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
+          >
+            <i className="fas fa-circle-notch fa-spin"></i>
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!question.trim()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm font-semibold rounded-lg transition-all"
+          >
+            Ask
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
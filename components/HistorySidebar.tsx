@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { HistoryEntry } from '../types';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  entries: HistoryEntry[];
+  activeId: string | null;
+  error: string | null;
+  onClose: () => void;
+  onOpen: (entry: HistoryEntry) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isOpen,
+  entries,
+  activeId,
+  error,
+  onClose,
+  onOpen,
+  onRename,
+  onDelete
+}) => {
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  if (!isOpen) return null;
+
+  const term = search.trim().toLowerCase();
+  const filtered = term
+    ? entries.filter(e => e.title.toLowerCase().includes(term) || e.query.toLowerCase().includes(term))
+    : entries;
+
+  const startEditing = (entry: HistoryEntry) => {
+    setEditingId(entry.id);
+    setEditTitle(entry.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, editTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/40 z-40" onClick={onClose}></div>
+      <aside className="fixed top-0 left-0 bottom-0 w-80 max-w-[85vw] bg-slate-900 border-r border-slate-700 z-50 flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+            <i className="fas fa-clock-rotate-left"></i>
+            Research History
+          </h3>
+          <button onClick={onClose} title="Close" className="p-1 text-slate-400 hover:text-slate-200">
+            <i className="fas fa-xmark"></i>
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-700">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search past reports"
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+
+        {error && <p className="px-4 pt-3 text-xs text-red-400">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {filtered.map(entry => (
+            <div
+              key={entry.id}
+              className={`group rounded-lg p-3 transition-colors ${
+                entry.id === activeId ? 'bg-blue-600/20 border border-blue-500/30' : 'hover:bg-slate-800 border border-transparent'
+              }`}
+            >
+              {editingId === entry.id ? (
+                <input
+                  type="text"
+                  value={editTitle}
+                  autoFocus
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onBlur={commitEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full bg-slate-800 border border-blue-500 rounded px-2 py-1 text-sm text-slate-100 focus:outline-none"
+                />
+              ) : (
+                <button onClick={() => onOpen(entry)} className="w-full text-left">
+                  <p className="text-sm font-medium text-slate-200 line-clamp-2">{entry.title}</p>
+                  <p className="text-[11px] text-slate-500 mt-1">
+                    {formatDate(entry.createdAt)} · {entry.model}
+                  </p>
+                </button>
+              )}
+              {editingId !== entry.id && (
+                <div className="flex items-center gap-1 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => startEditing(entry)}
+                    title="Rename"
+                    className="p-1 text-xs text-slate-400 hover:text-slate-200"
+                  >
+                    <i className="fas fa-pen"></i>
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete "${entry.title}"?`)) onDelete(entry.id);
+                    }}
+                    title="Delete"
+                    className="p-1 text-xs text-slate-400 hover:text-red-400"
+                  >
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {filtered.length === 0 && (
+            <p className="p-4 text-sm text-slate-500 italic text-center">
+              {entries.length === 0 ? 'Completed reports will appear here.' : 'No reports match your search.'}
+            </p>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
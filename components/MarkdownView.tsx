@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import Markdown, { Components, ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { GroundingChunk, VerifiedClaim } from '../types';
+import { extractHeadings, linkCitations, MarkdownHeading } from '../services/markdown';
+import { sourceLabel } from '../services/sources';
+import { findClaimsForLine } from '../services/verification';
+import { ClaimBadge } from './VerificationPanel';
+
+interface MarkdownViewProps {
+  text: string;
+  sources?: GroundingChunk[];  // Numbered sources that [n] markers link to
+  claims?: VerifiedClaim[];    // Verified claims, shown as badges after their paragraph
+  toc?: boolean;               // Show a table of contents above the text
+}
+
+type Node = ExtraProps['node'];
+
+// Stable defaults, so the memoised components are not rebuilt on every render
+const NO_SOURCES: GroundingChunk[] = [];
+const NO_CLAIMS: VerifiedClaim[] = [];
+
+const HEADING_STYLES: Record<string, string> = {
+  h1: 'text-4xl font-bold mt-8 mb-4 text-blue-100',
+  h2: 'text-2xl font-bold mt-8 mb-3 text-blue-200',
+  h3: 'text-xl font-bold mt-6 mb-2 text-blue-300',
+  h4: 'text-lg font-semibold mt-4 mb-2 text-blue-300',
+  h5: 'font-semibold mt-4 mb-2 text-blue-300',
+  h6: 'font-semibold mt-4 mb-2 text-slate-300'
+};
+
+export const TableOfContents: React.FC<{ headings: MarkdownHeading[] }> = ({ headings }) => {
+  const top = Math.min(...headings.map(h => h.level));
+  return (
+    <nav className="mb-8 p-5 rounded-xl bg-slate-800/50 border border-slate-700">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400 mb-3">Contents</h3>
+      <ul className="space-y-1 text-sm">
+        {headings.map(heading => (
+          <li key={heading.id} style={{ paddingLeft: `${(heading.level - top) * 1}rem` }}>
+            <a href={`#${heading.id}`} className="text-slate-300 hover:text-blue-400 transition-colors">
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+};
+
+/**
+ * Renders model-written Markdown (GFM tables, fenced code, nested lists).
+ * Raw HTML is not rendered and the output is sanitised, so model output cannot
+ * inject scripts.
+ */
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ text, sources = NO_SOURCES, claims = NO_CLAIMS, toc = false }) => {
+  const headings = useMemo(() => extractHeadings(text), [text]);
+  const lines = useMemo(() => text.split('\n'), [text]);
+
+  const components = useMemo<Components>(() => {
+    const idByLine = new Map(headings.map(h => [h.line, h.id]));
+
+    // Matches verified claims against the source lines of a block
+    const badgesFor = (node: Node, firstLineOnly = false) => {
+      if (claims.length === 0 || !node?.position) return null;
+      const { start, end } = node.position;
+      const source = lines.slice(start.line - 1, firstLineOnly ? start.line : end.line).join(' ');
+      return findClaimsForLine(source, claims).map(claim => <ClaimBadge key={claim.id} claim={claim} />);
+    };
+
+    const heading = (tag: keyof typeof HEADING_STYLES) =>
+      ({ node, children }: React.HTMLAttributes<HTMLHeadingElement> & ExtraProps) =>
+        React.createElement(tag, {
+          id: node?.position ? idByLine.get(node.position.start.line) : undefined,
+          className: `${HEADING_STYLES[tag]} scroll-mt-24`
+        }, children);
+
+    return {
+      h1: heading('h1'),
+      h2: heading('h2'),
+      h3: heading('h3'),
+      h4: heading('h4'),
+      h5: heading('h5'),
+      h6: heading('h6'),
+      p: ({ node, children }) => <p className="mb-4">{children}{badgesFor(node)}</p>,
+      ul: ({ children }) => <ul className="list-disc ml-6 mb-4 space-y-2">{children}</ul>,
+      ol: ({ children }) => <ol className="list-decimal ml-6 mb-4 space-y-2">{children}</ol>,
+      li: ({ node, children }) => {
+        // Loose list items wrap their text in paragraphs, which show the badges
+        const hasParagraph = node?.children.some(child => child.type === 'element' && child.tagName === 'p');
+        return <li>{children}{!hasParagraph && badgesFor(node, true)}</li>;
+      },
+      a: ({ href, children }) => {
+        const cite = href?.match(/^#cite-(\d+)$/);
+        if (cite) {
+          const n = parseInt(cite[1], 10);
+          const source = sources[n - 1];
+          if (!source) return <>[{n}]</>;
+          return (
+            <a
+              href={source.web?.uri || `#source-${n}`}
+              target={source.web ? '_blank' : undefined}
+              rel="noopener noreferrer"
+              title={sourceLabel(source)}
+              className="text-sm align-super text-blue-400 hover:text-blue-300 no-underline font-semibold"
+            >
+              [{n}]
+            </a>
+          );
+        }
+        const external = !!href && !href.startsWith('#');
+        return (
+          <a
+            href={href}
+            target={external ? '_blank' : undefined}
+            rel="noopener noreferrer"
+            className="text-blue-400 hover:text-blue-300 underline"
+          >
+            {children}
+          </a>
+        );
+      },
+      blockquote: ({ children }) => (
+        <blockquote className="border-l-4 border-slate-600 pl-4 italic text-slate-400 mb-4">{children}</blockquote>
+      ),
+      pre: ({ children }) => (
+        <pre className="mb-4 p-4 rounded-lg bg-slate-900 border border-slate-700 overflow-x-auto text-sm leading-6 [&>code]:bg-transparent [&>code]:p-0">
+          {children}
+        </pre>
+      ),
+      code: ({ className, children }) => (
+        <code className={`${className ? `${className} ` : ''}font-mono text-[0.9em] bg-slate-800 rounded px-1.5 py-0.5`}>{children}</code>
+      ),
+      table: ({ children }) => (
+        <div className="mb-4 overflow-x-auto">
+          <table className="w-full text-sm border-collapse">{children}</table>
+        </div>
+      ),
+      th: ({ children, style }) => (
+        <th style={style} className="border border-slate-700 bg-slate-800 px-3 py-2 text-left font-semibold text-slate-200">{children}</th>
+      ),
+      td: ({ children, style }) => (
+        <td style={style} className="border border-slate-700 px-3 py-2 align-top">{children}</td>
+      ),
+      hr: () => <hr className="my-8 border-slate-700" />
+    };
+  }, [headings, lines, sources, claims]);
+
+  return (
+    <>
+      {toc && headings.length > 1 && <TableOfContents headings={headings} />}
+      <Markdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]} components={components}>
+        {linkCitations(text)}
+      </Markdown>
+    </>
+  );
+};
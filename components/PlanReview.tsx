@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ResearchStep } from '../types';
+import { createCustomStep } from '../services/planReview';
+
+interface PlanReviewProps {
+  steps: ResearchStep[];
+  onChange: (steps: ResearchStep[]) => void;
+  onReplan: (stepId: string) => Promise<void>;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const PlanReview: React.FC<PlanReviewProps> = ({
+  steps,
+  onChange,
+  onReplan,
+  onConfirm,
+  onCancel
+}) => {
+  const [replanningId, setReplanningId] = useState<string | null>(null);
+  const [replanError, setReplanError] = useState<string | null>(null);
+
+  const updateQuery = (id: string, query: string) => {
+    onChange(steps.map(s => s.id === id ? { ...s, query } : s));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const remove = (id: string) => {
+    onChange(steps.filter(s => s.id !== id));
+  };
+
+  const handleReplan = async (id: string) => {
+    setReplanningId(id);
+    setReplanError(null);
+    try {
+      await onReplan(id);
+    } catch (e: any) {
+      setReplanError(e.message || 'Re-planning failed');
+    } finally {
+      setReplanningId(null);
+    }
+  };
+
+  const validSteps = steps.filter(s => s.query.trim()).length;
+
+  return (
+    <div className="glass-panel p-6 md:p-8 rounded-2xl space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold text-slate-100">Review Research Plan</h3>
+        <p className="text-slate-400 mt-1 text-sm">
+          Edit, reorder or remove sub-questions, add your own, or let the model re-plan a single step before research starts.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {steps.map((step, index) => (
+          <div key={step.id} className="flex items-center gap-2">
+            <span className="w-6 text-xs font-semibold text-slate-500 text-right">{index + 1}.</span>
+            <input
+              type="text"
+              value={step.query}
+              onChange={(e) => updateQuery(step.id, e.target.value)}
+              disabled={replanningId === step.id}
+              placeholder="Enter a research sub-question"
+              className="flex-1 bg-slate-800/80 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+            />
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              title="Move up"
+              className="p-2 text-slate-400 hover:text-slate-200 disabled:opacity-30"
+            >
+              <i className="fas fa-arrow-up"></i>
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === steps.length - 1}
+              title="Move down"
+              className="p-2 text-slate-400 hover:text-slate-200 disabled:opacity-30"
+            >
+              <i className="fas fa-arrow-down"></i>
+            </button>
+            <button
+              onClick={() => handleReplan(step.id)}
+              disabled={replanningId !== null}
+              title="Re-plan this step with the model"
+              className="p-2 text-indigo-400 hover:text-indigo-300 disabled:opacity-30"
+            >
+              <i className={`fas ${replanningId === step.id ? 'fa-spinner fa-spin' : 'fa-wand-magic-sparkles'}`}></i>
+            </button>
+            <button
+              onClick={() => remove(step.id)}
+              title="Remove step"
+              className="p-2 text-red-400 hover:text-red-300"
+            >
+              <i className="fas fa-trash"></i>
+            </button>
+          </div>
+        ))}
+        {steps.length === 0 && (
+          <p className="text-sm text-slate-500 italic">The plan is empty. Add at least one step.</p>
+        )}
+      </div>
+
+      {replanError && (
+        <p className="text-xs text-red-400">{replanError}</p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => onChange([...steps, createCustomStep()])}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
+        >
+          <i className="fas fa-plus"></i>
+          Add Step
+        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-semibold text-slate-400 hover:text-slate-200 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={validSteps === 0 || replanningId !== null}
+            className="px-5 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm font-semibold rounded-lg transition-all flex items-center gap-2"
+          >
+            <i className="fas fa-play"></i>
+            Start Research ({validSteps} {validSteps === 1 ? 'step' : 'steps'})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import {
+  PROMPTS,
+  PROMPT_VARIABLES,
+  PromptName,
+  loadPromptOverrides,
+  savePromptOverrides,
+  missingVariables,
+  exportPromptOverrides,
+  parsePromptOverrides
+} from '../services/prompts';
+import { downloadBlob } from '../services/reportDocument';
+
+interface PromptSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const PromptSettings: React.FC<PromptSettingsProps> = ({ isOpen, onClose }) => {
+  const [overrides, setOverrides] = useState<Partial<Record<PromptName, string>>>({});
+  const [selected, setSelected] = useState<PromptName>(PROMPTS[0].name);
+  const [draft, setDraft] = useState('');
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+
+  // Reload on open so changes from another tab are picked up
+  useEffect(() => {
+    if (!isOpen) return;
+    const saved = loadPromptOverrides();
+    setOverrides(saved);
+    setDraft(saved[selected] ?? PROMPTS.find(p => p.name === selected)!.template);
+    setMessage(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const definition = PROMPTS.find(p => p.name === selected)!;
+  const current = overrides[selected] ?? definition.template;
+  const isDirty = draft !== current;
+  const missing = missingVariables(selected, draft);
+  const customCount = Object.keys(overrides).length;
+
+  const update = (next: Partial<Record<PromptName, string>>) => {
+    savePromptOverrides(next);
+    setOverrides(next);
+  };
+
+  const select = (name: PromptName) => {
+    setSelected(name);
+    setDraft(overrides[name] ?? PROMPTS.find(p => p.name === name)!.template);
+  };
+
+  const save = () => {
+    const { [selected]: _, ...rest } = overrides;
+    // Saving the built-in text is the same as resetting it
+    update(draft === definition.template ? rest : { ...rest, [selected]: draft });
+    setMessage({ type: 'info', text: `Saved "${definition.title}".` });
+  };
+
+  const reset = () => {
+    const { [selected]: _, ...rest } = overrides;
+    update(rest);
+    setDraft(definition.template);
+    setMessage({ type: 'info', text: `"${definition.title}" restored to the built-in prompt.` });
+  };
+
+  const resetAll = () => {
+    update({});
+    setDraft(definition.template);
+    setMessage({ type: 'info', text: 'All prompts restored to the built-in versions.' });
+  };
+
+  const exportOverrides = () => {
+    downloadBlob(new Blob([exportPromptOverrides()], { type: 'application/json' }), `insightflow-prompts-${Date.now()}.json`);
+  };
+
+  const importOverrides = async (file: File) => {
+    try {
+      const imported = parsePromptOverrides(await file.text());
+      const next = { ...overrides, ...imported };
+      update(next);
+      setDraft(next[selected] ?? definition.template);
+      setMessage({ type: 'info', text: `Imported ${Object.keys(imported).length} prompt override(s).` });
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message || 'Could not read the prompt file.' });
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/40 z-40" onClick={onClose}></div>
+      <div className="fixed inset-4 md:inset-10 bg-slate-900 border border-slate-700 rounded-2xl z-50 flex flex-col shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-slate-700 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+            <i className="fas fa-sliders"></i>
+            Prompt Library
+            <span className="text-xs font-normal text-slate-500">
+              {customCount > 0 ? `${customCount} customised` : 'all built-in'}
+            </span>
+          </h3>
+          <div className="flex items-center gap-2 text-xs">
+            <button
+              onClick={exportOverrides}
+              disabled={customCount === 0}
+              className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-50 transition-colors"
+            >
+              <i className="fas fa-file-export mr-1.5"></i>
+              Export
+            </button>
+            <label className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:border-slate-500 cursor-pointer transition-colors">
+              <i className="fas fa-file-import mr-1.5"></i>
+              Import
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) importOverrides(file);
+                }}
+              />
+            </label>
+            <button
+              onClick={resetAll}
+              disabled={customCount === 0}
+              className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:border-red-500/50 hover:text-red-300 disabled:opacity-50 transition-colors"
+            >
+              Reset all
+            </button>
+            <button onClick={onClose} title="Close" className="p-1 ml-2 text-slate-400 hover:text-slate-200">
+              <i className="fas fa-xmark"></i>
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <p className={`px-4 py-2 text-xs border-b border-slate-700 ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          <nav className="md:w-64 border-b md:border-b-0 md:border-r border-slate-700 overflow-y-auto p-2 space-y-1 max-h-48 md:max-h-none">
+            {PROMPTS.map(p => (
+              <button
+                key={p.name}
+                onClick={() => select(p.name)}
+                className={`w-full text-left rounded-lg px-3 py-2 text-sm transition-colors ${
+                  p.name === selected ? 'bg-blue-600/20 border border-blue-500/30 text-white' : 'border border-transparent text-slate-300 hover:bg-slate-800'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">{p.title}</span>
+                  {overrides[p.name] !== undefined && (
+                    <span className="text-[10px] font-bold uppercase text-amber-400">Custom</span>
+                  )}
+                </div>
+                <div className="text-[11px] text-slate-500 font-mono">{p.name} · v{p.version}</div>
+              </button>
+            ))}
+          </nav>
+
+          <div className="flex-1 flex flex-col min-h-0 p-4 gap-3">
+            <p className="text-xs text-slate-400">{definition.description}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {definition.variables.map(v => (
+                <span
+                  key={v}
+                  title={PROMPT_VARIABLES[v]}
+                  className={`px-2 py-0.5 rounded font-mono text-[11px] border ${
+                    missing.includes(v) ? 'border-amber-500/40 text-amber-400' : 'border-slate-700 text-slate-400'
+                  }`}
+                >
+                  {`{{${v}}}`}
+                </span>
+              ))}
+            </div>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="flex-1 min-h-[12rem] w-full bg-slate-800 border border-slate-700 rounded-lg p-3 font-mono text-xs leading-relaxed text-slate-100 focus:border-blue-500 focus:outline-none resize-none"
+            />
+            {missing.length > 0 && (
+              <p className="text-xs text-amber-400">
+                <i className="fas fa-triangle-exclamation mr-1.5"></i>
+                Not used: {missing.map(v => `{{${v}}}`).join(', ')}. The model will not see this information.
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <button
+                onClick={save}
+                disabled={!isDirty}
+                className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-xs font-semibold rounded-lg transition-all"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setDraft(current)}
+                disabled={!isDirty}
+                className="px-4 py-1.5 text-xs font-semibold text-slate-400 hover:text-slate-200 disabled:opacity-50"
+              >
+                Discard changes
+              </button>
+              <button
+                onClick={reset}
+                disabled={overrides[selected] === undefined}
+                className="ml-auto px-4 py-1.5 text-xs font-semibold text-slate-400 hover:text-red-300 disabled:opacity-50"
+              >
+                Reset to built-in
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
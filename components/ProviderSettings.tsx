@@ -1,5 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { ProviderType, ProviderConfig } from '../types';
+import { ProviderType, ProviderConfig, EmbeddingProviderType } from '../types';
+import { getSearchProvider, listSearchProviders } from '../services/searchRegistry';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/openaiService';
+import { DEFAULT_ANTHROPIC_BASE_URL, DEFAULT_ANTHROPIC_MODEL } from '../services/anthropicService';
+import { DEFAULT_EMBEDDING_MODELS } from '../services/embeddings';
+import { getApiKey, setApiKey } from '../services/providerKeys';
+import { DEFAULT_RERANK_TOP_K, DEFAULT_RERANK_TOKEN_BUDGET } from '../services/reranker';
+import { DEFAULT_CONCURRENCY, MAX_CONCURRENCY, MAX_DEPTH, DEFAULT_BREADTH, DEFAULT_MAX_STEPS } from '../services/researchOrchestrator';
 
 interface ProviderSettingsProps {
   config: ProviderConfig;
@@ -8,6 +15,12 @@ interface ProviderSettingsProps {
   isValidating: boolean;
 }
 
+const EMBEDDING_PROVIDERS: { id: EmbeddingProviderType; name: string; baseUrlHint?: string }[] = [
+  { id: 'ollama', name: 'Ollama', baseUrlHint: 'Ollama URL (default: the Ollama base URL above or http://localhost:11434)' },
+  { id: 'gemini', name: 'Google Gemini' },
+  { id: 'openai', name: 'OpenAI-compatible', baseUrlHint: 'Base URL (default: the OpenAI-compatible URL above or https://api.openai.com/v1)' }
+];
+
 const PROVIDERS: { id: ProviderType; name: string; description: string; needsSearch: boolean }[] = [
   { 
     id: 'gemini', 
@@ -18,13 +31,25 @@ const PROVIDERS: { id: ProviderType; name: string; description: string; needsSea
   { 
     id: 'minimax', 
     name: 'MiniMax M2.5', 
-    description: 'Advanced reasoning, requires API key + Tavily for search',
+    description: 'Advanced reasoning, requires API key + a web search backend',
     needsSearch: true 
   },
   { 
     id: 'ollama', 
     name: 'Ollama (Llama 3.2)', 
-    description: 'Local running, requires Ollama installed + Tavily for search',
+    description: 'Local running, requires Ollama installed + a web search backend',
+    needsSearch: true 
+  },
+  { 
+    id: 'openai', 
+    name: 'OpenAI-compatible', 
+    description: 'Any /v1/chat/completions server (vLLM, LM Studio, LiteLLM...) + a web search backend',
+    needsSearch: true 
+  },
+  { 
+    id: 'anthropic', 
+    name: 'Anthropic', 
+    description: 'Messages API, requires API key + a web search backend',
     needsSearch: true 
   },
 ];
@@ -53,6 +78,9 @@ export const ProviderSettings: React.FC<ProviderSettingsProps> = ({
   isValidating
 }) => {
   const [showSettings, setShowSettings] = useState(false);
+  const selectedProvider = PROVIDERS.find(p => p.id === config.provider);
+  const searchProvider = getSearchProvider(config.searchProvider);
+  const embeddingProvider = EMBEDDING_PROVIDERS.find(p => p.id === config.embeddingProvider) || EMBEDDING_PROVIDERS[0];
 
   const handleProviderChange = (provider: ProviderType) => {
     onConfigChange({
@@ -119,8 +147,8 @@ export const ProviderSettings: React.FC<ProviderSettingsProps> = ({
               </label>
               <input
                 type="password"
-                value={config.apiKey}
-                onChange={(e) => onConfigChange({ ...config, apiKey: e.target.value, isValid: false })}
+                value={getApiKey(config, 'gemini')}
+                onChange={(e) => onConfigChange({ ...setApiKey(config, 'gemini', e.target.value), isValid: false })}
                 placeholder="Enter your Gemini API key"
                 className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
               />
@@ -136,8 +164,8 @@ export const ProviderSettings: React.FC<ProviderSettingsProps> = ({
                 </label>
                 <input
                   type="password"
-                  value={config.apiKey}
-                  onChange={(e) => onConfigChange({ ...config, apiKey: e.target.value, isValid: false })}
+                  value={getApiKey(config, 'minimax')}
+                  onChange={(e) => onConfigChange({ ...setApiKey(config, 'minimax', e.target.value), isValid: false })}
                   placeholder="Enter your MiniMax API key"
                   className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
                 />
@@ -168,19 +196,6 @@ export const ProviderSettings: React.FC<ProviderSettingsProps> = ({
                   ))}
                 </select>
               </div>
-              <div className="mb-4">
-                <label className="block text-xs font-medium text-slate-400 mb-2">
-                  Tavily Search API Key
-                </label>
-                <input
-                  type="password"
-                  value={config.searchApiKey || ''}
-                  onChange={(e) => onConfigChange({ ...config, searchApiKey: e.target.value, isValid: false })}
-                  placeholder="Enter Tavily API key for search"
-                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
-                />
-                <p className="text-xs text-slate-500 mt-1">Get from tavily.com</p>
-              </div>
             </>
           )}
 
@@ -213,26 +228,354 @@ export const ProviderSettings: React.FC<ProviderSettingsProps> = ({
                 </select>
                 <p className="text-xs text-slate-500 mt-1">Make sure the model is downloaded in Ollama</p>
               </div>
-              <div className="mb-4">
+            </>
+          )}
+
+          {config.provider === 'openai' && (
+            <>
+              <div className="mb-3">
                 <label className="block text-xs font-medium text-slate-400 mb-2">
-                  Tavily Search API Key
+                  Base URL
+                </label>
+                <input
+                  type="text"
+                  value={config.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL}
+                  onChange={(e) => onConfigChange({ ...config, openaiBaseUrl: e.target.value, isValid: false })}
+                  placeholder={DEFAULT_OPENAI_BASE_URL}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                />
+                <p className="text-xs text-slate-500 mt-1">Include the /v1 suffix, e.g. https://api.openai.com/v1</p>
+              </div>
+              <div className="mb-3">
+                <label className="block text-xs font-medium text-slate-400 mb-2">
+                  API Key
                 </label>
                 <input
                   type="password"
-                  value={config.searchApiKey || ''}
-                  onChange={(e) => onConfigChange({ ...config, searchApiKey: e.target.value, isValid: false })}
-                  placeholder="Enter Tavily API key for search"
+                  value={getApiKey(config, 'openai')}
+                  onChange={(e) => onConfigChange({ ...setApiKey(config, 'openai', e.target.value), isValid: false })}
+                  placeholder="Optional for most local servers"
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+              <div className="mb-3">
+                <label className="block text-xs font-medium text-slate-400 mb-2">
+                  Model Name
+                </label>
+                <input
+                  type="text"
+                  value={config.openaiModel || ''}
+                  onChange={(e) => onConfigChange({ ...config, openaiModel: e.target.value, isValid: false })}
+                  placeholder="e.g. gpt-4o-mini or meta-llama/Llama-3.1-8B-Instruct"
                   className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
                 />
-                <p className="text-xs text-slate-500 mt-1">Get from tavily.com</p>
               </div>
             </>
           )}
 
+          {config.provider === 'anthropic' && (
+            <>
+              <div className="mb-3">
+                <label className="block text-xs font-medium text-slate-400 mb-2">
+                  Anthropic API Key
+                </label>
+                <input
+                  type="password"
+                  value={getApiKey(config, 'anthropic')}
+                  onChange={(e) => onConfigChange({ ...setApiKey(config, 'anthropic', e.target.value), isValid: false })}
+                  placeholder="Enter your Anthropic API key"
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+              <div className="mb-3">
+                <label className="block text-xs font-medium text-slate-400 mb-2">
+                  Base URL
+                </label>
+                <input
+                  type="text"
+                  value={config.anthropicBaseUrl || DEFAULT_ANTHROPIC_BASE_URL}
+                  onChange={(e) => onConfigChange({ ...config, anthropicBaseUrl: e.target.value, isValid: false })}
+                  placeholder={DEFAULT_ANTHROPIC_BASE_URL}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                />
+                <p className="text-xs text-slate-500 mt-1">Without the /v1 suffix; point it at a proxy or mock server if needed</p>
+              </div>
+              <div className="mb-3">
+                <label className="block text-xs font-medium text-slate-400 mb-2">
+                  Model
+                </label>
+                <input
+                  type="text"
+                  value={config.anthropicModel || DEFAULT_ANTHROPIC_MODEL}
+                  onChange={(e) => onConfigChange({ ...config, anthropicModel: e.target.value, isValid: false })}
+                  placeholder={DEFAULT_ANTHROPIC_MODEL}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+            </>
+          )}
+
+          {/* Web Search Backend (providers without built-in search) */}
+          {selectedProvider?.needsSearch && (
+            <div className="mb-4 pt-3 border-t border-slate-700">
+              <label className="block text-xs font-medium text-slate-400 mb-2">
+                Web Search
+              </label>
+              <select
+                value={searchProvider.id}
+                onChange={(e) => onConfigChange({ ...config, searchProvider: e.target.value, searchBaseUrl: '', isValid: false })}
+                className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+              >
+                {listSearchProviders().map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">{searchProvider.description}</p>
+              {searchProvider.requiresApiKey && (
+                <input
+                  type="password"
+                  value={config.searchApiKey || ''}
+                  onChange={(e) => onConfigChange({ ...config, searchApiKey: e.target.value, isValid: false })}
+                  placeholder={`Enter ${searchProvider.name} API key`}
+                  className="w-full mt-2 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                />
+              )}
+              <input
+                type="text"
+                value={config.searchBaseUrl || ''}
+                onChange={(e) => onConfigChange({ ...config, searchBaseUrl: e.target.value, isValid: false })}
+                placeholder={searchProvider.requiresBaseUrl
+                  ? `Instance URL, e.g. ${searchProvider.defaultBaseUrl}`
+                  : `Optional proxy URL (default ${searchProvider.defaultBaseUrl})`}
+                className="w-full mt-2 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+              />
+              <label className="mt-3 flex items-center gap-2 text-xs font-medium text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!config.pageReaderEnabled}
+                  onChange={(e) => onConfigChange({ ...config, pageReaderEnabled: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                Read full pages of top results
+              </label>
+              {config.pageReaderEnabled && (
+                <>
+                  <input
+                    type="text"
+                    value={config.pageReaderProxyUrl || ''}
+                    onChange={(e) => onConfigChange({ ...config, pageReaderProxyUrl: e.target.value })}
+                    placeholder="CORS proxy, e.g. http://localhost:8080/?url="
+                    className="w-full mt-2 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">The page URL is appended, or substituted for {'{url}'}</p>
+                </>
+              )}
+              <label className="mt-3 flex items-center gap-2 text-xs font-medium text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!config.rerankEnabled}
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    rerankEnabled: e.target.checked,
+                    embeddingProvider: config.embeddingProvider || 'ollama'
+                  })}
+                  className="accent-blue-500"
+                />
+                Rerank sources semantically (embeddings)
+              </label>
+              {config.rerankEnabled && (
+                <>
+                  <select
+                    value={embeddingProvider.id}
+                    onChange={(e) => onConfigChange({ ...config, embeddingProvider: e.target.value as EmbeddingProviderType, embeddingModel: '', embeddingBaseUrl: '' })}
+                    className="w-full mt-2 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+                  >
+                    {EMBEDDING_PROVIDERS.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={config.embeddingModel || ''}
+                    onChange={(e) => onConfigChange({ ...config, embeddingModel: e.target.value })}
+                    placeholder={`Embedding model (default: ${DEFAULT_EMBEDDING_MODELS[embeddingProvider.id]})`}
+                    className="w-full mt-2 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                  />
+                  {embeddingProvider.baseUrlHint && (
+                    <input
+                      type="text"
+                      value={config.embeddingBaseUrl || ''}
+                      onChange={(e) => onConfigChange({ ...config, embeddingBaseUrl: e.target.value })}
+                      placeholder={embeddingProvider.baseUrlHint}
+                      className="w-full mt-2 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                    />
+                  )}
+                  {embeddingProvider.id !== 'ollama' && (
+                    <input
+                      type="password"
+                      value={config.embeddingApiKey || ''}
+                      onChange={(e) => onConfigChange({ ...config, embeddingApiKey: e.target.value })}
+                      placeholder="Embeddings API key (default: the API key above)"
+                      className="w-full mt-2 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none"
+                    />
+                  )}
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    <div>
+                      <span className="block text-[10px] text-slate-500 mb-1">Sources kept</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={config.rerankTopK || DEFAULT_RERANK_TOP_K}
+                        onChange={(e) => onConfigChange({
+                          ...config,
+                          rerankTopK: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 10)
+                        })}
+                        className="w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+                      />
+                    </div>
+                    <div>
+                      <span className="block text-[10px] text-slate-500 mb-1">Token budget</span>
+                      <input
+                        type="number"
+                        min={500}
+                        step={500}
+                        value={config.rerankTokenBudget || DEFAULT_RERANK_TOKEN_BUDGET}
+                        onChange={(e) => onConfigChange({
+                          ...config,
+                          rerankTokenBudget: Math.max(parseInt(e.target.value, 10) || DEFAULT_RERANK_TOKEN_BUDGET, 500)
+                        })}
+                        className="w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">Twice as many candidates are retrieved, then near-duplicates are dropped and the most relevant passages kept</p>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Domain Lists (all providers) */}
+          <div className="mb-4 pt-3 border-t border-slate-700">
+            <label className="block text-xs font-medium text-slate-400 mb-2">
+              Allowed Domains
+            </label>
+            <textarea
+              value={config.domainAllowList || ''}
+              onChange={(e) => onConfigChange({ ...config, domainAllowList: e.target.value })}
+              rows={2}
+              placeholder="One per line, e.g. nature.com. Leave empty to allow all"
+              className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none resize-y"
+            />
+            <label className="block text-xs font-medium text-slate-400 mt-2 mb-2">
+              Blocked Domains
+            </label>
+            <textarea
+              value={config.domainBlockList || ''}
+              onChange={(e) => onConfigChange({ ...config, domainBlockList: e.target.value })}
+              rows={2}
+              placeholder="One per line, e.g. pinterest.com"
+              className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-blue-500 focus:outline-none resize-y"
+            />
+            <p className="text-xs text-slate-500 mt-1">Subdomains are included. Web search results are filtered before they reach the model; sources from Gemini grounding are dropped from the report and its citations</p>
+          </div>
+
+          {/* Research Options */}
+          <div className="mb-4 pt-3 border-t border-slate-700">
+            <label className="block text-xs font-medium text-slate-400 mb-2">
+              Parallel Research Steps
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={config.maxConcurrentSteps || DEFAULT_CONCURRENCY}
+              onChange={(e) => onConfigChange({
+                ...config,
+                maxConcurrentSteps: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), MAX_CONCURRENCY)
+              })}
+              className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+            />
+            <p className="text-xs text-slate-500 mt-1">Lower this if your provider rate-limits requests</p>
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-xs font-medium text-slate-400 mb-2">
+              Deep Research Mode
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <span className="block text-[10px] text-slate-500 mb-1">Depth</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_DEPTH}
+                  value={config.researchDepth || 0}
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    researchDepth: Math.min(Math.max(parseInt(e.target.value, 10) || 0, 0), MAX_DEPTH)
+                  })}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+              <div>
+                <span className="block text-[10px] text-slate-500 mb-1">Breadth</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={5}
+                  value={config.researchBreadth || DEFAULT_BREADTH}
+                  disabled={!config.researchDepth}
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    researchBreadth: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 5)
+                  })}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <span className="block text-[10px] text-slate-500 mb-1">Max steps</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={40}
+                  value={config.maxResearchSteps || DEFAULT_MAX_STEPS}
+                  disabled={!config.researchDepth}
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    maxResearchSteps: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 40)
+                  })}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-2 text-sm text-white focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500 mt-1">Depth 0 runs a single pass; higher depths add follow-up questions from each step's gaps</p>
+          </div>
+
+          <label className="mb-4 flex items-center gap-2 text-xs font-medium text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!config.reviewPlan}
+              onChange={(e) => onConfigChange({ ...config, reviewPlan: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Review and edit the plan before research starts
+          </label>
+
+          <label className="mb-4 flex items-center gap-2 text-xs font-medium text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!config.verifyClaims}
+              onChange={(e) => onConfigChange({ ...config, verifyClaims: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Verify report claims against the findings (extra model calls)
+          </label>
+
           {/* Validate Button */}
           <button
             onClick={handleSave}
-            disabled={isValidating || (!config.apiKey && !config.searchApiKey)}
+            disabled={isValidating || (!getApiKey(config, config.provider) && !config.searchApiKey && !config.searchBaseUrl)}
             className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white text-sm font-semibold rounded-lg transition-all flex items-center justify-center gap-2"
           >
             {isValidating ? (
@@ -1,25 +1,64 @@
 
 import React from 'react';
-import { GroundingChunk } from '../types';
+import { GroundingChunk, SourceCredibility } from '../types';
+import { sourceLabel } from '../services/sources';
+import { CATEGORY_LABELS } from '../services/credibility';
 
 interface SourceBadgeProps {
   source: GroundingChunk;
+  index?: number; // Citation number shown in front of the label
 }
 
-export const SourceBadge: React.FC<SourceBadgeProps> = ({ source }) => {
+const scoreColor = (score: number) =>
+  score >= 75 ? 'text-green-400' : score >= 50 ? 'text-amber-400' : 'text-red-400';
+
+const describeCredibility = (credibility: SourceCredibility) => [
+  `Credibility ${credibility.score}/100`,
+  `Category: ${CATEGORY_LABELS[credibility.category]}`,
+  credibility.ageYears !== undefined ? `Published about ${credibility.ageYears < 1 ? 'less than a year' : `${Math.round(credibility.ageYears)} years`} ago` : 'Publication date unknown',
+  `Used by ${credibility.citedBySteps} research ${credibility.citedBySteps === 1 ? 'step' : 'steps'}`
+].join('\n');
+
+export const SourceBadge: React.FC<SourceBadgeProps> = ({ source, index }) => {
+  const number = index ? <span className="font-semibold text-blue-400">{index}</span> : null;
+  const title = source.credibility ? `${sourceLabel(source)}\n${describeCredibility(source.credibility)}` : sourceLabel(source);
+  const score = source.credibility ? (
+    <span className={`font-semibold ${scoreColor(source.credibility.score)}`}>
+      {source.credibility.score}
+      <span className="ml-1 font-normal opacity-70">{CATEGORY_LABELS[source.credibility.category]}</span>
+    </span>
+  ) : null;
+
+  if (source.document) {
+    return (
+      <span
+        id={index ? `source-${index}` : undefined}
+        title={title}
+        className="inline-flex items-center gap-2 px-2 py-1 rounded-md bg-amber-900/20 border border-amber-800/50 text-xs text-amber-200"
+      >
+        {number}
+        <i className="fas fa-file-lines text-[10px] opacity-70"></i>
+        <span className="max-w-[120px] truncate">{sourceLabel(source)}</span>
+        {score}
+      </span>
+    );
+  }
+
   if (!source.web) return null;
-  
-  const domain = new URL(source.web.uri).hostname.replace('www.', '');
 
   return (
     <a 
+      id={index ? `source-${index}` : undefined}
       href={source.web.uri} 
       target="_blank" 
       rel="noopener noreferrer"
+      title={title}
       className="inline-flex items-center gap-2 px-2 py-1 rounded-md bg-slate-800/50 hover:bg-slate-700 border border-slate-700 text-xs text-slate-300 transition-colors"
     >
+      {number}
       <i className="fas fa-link text-[10px] opacity-70"></i>
-      <span className="max-w-[120px] truncate">{source.web.title || domain}</span>
+      <span className="max-w-[120px] truncate">{sourceLabel(source)}</span>
+      {score}
     </a>
   );
 };
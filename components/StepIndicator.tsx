@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { ResearchStep } from '../types';
+import { orderStepTree } from '../services/researchOrchestrator';
 
 interface StepIndicatorProps {
   steps: ResearchStep[];
@@ -11,13 +12,25 @@ export const StepIndicator: React.FC<StepIndicatorProps> = ({ steps }) => {
     <div className="space-y-4">
       <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Research Pipeline</h3>
       <div className="space-y-3">
-        {steps.map((step) => (
-          <div key={step.id} className="flex items-start gap-3 group">
+        {orderStepTree(steps).map((step) => (
+          <div
+            key={step.id}
+            className={`flex items-start gap-3 group ${step.depth ? 'border-l border-slate-700 pl-3' : ''}`}
+            style={step.depth ? { marginLeft: `${(step.depth - 1) * 12 + 10}px` } : undefined}
+          >
             <div className="mt-1">
               {step.status === 'completed' ? (
                 <div className="w-5 h-5 rounded-full bg-green-500 flex items-center justify-center text-[10px] text-white">
                   <i className="fas fa-check"></i>
                 </div>
+              ) : step.status === 'cancelled' ? (
+                <div className="w-5 h-5 rounded-full bg-slate-600 flex items-center justify-center text-[10px] text-slate-300">
+                  <i className="fas fa-ban"></i>
+                </div>
+              ) : step.status === 'failed' ? (
+                <div className="w-5 h-5 rounded-full bg-red-500 flex items-center justify-center text-[10px] text-white">
+                  <i className="fas fa-times"></i>
+                </div>
               ) : step.status === 'searching' || step.status === 'analyzing' ? (
                 <div className="w-5 h-5 rounded-full border-2 border-blue-500 border-t-transparent animate-spin"></div>
               ) : (
@@ -27,11 +40,32 @@ export const StepIndicator: React.FC<StepIndicatorProps> = ({ steps }) => {
               )}
             </div>
             <div className="flex-1">
-              <p className={`text-sm ${step.status === 'pending' ? 'text-slate-500' : 'text-slate-200'}`}>
+              {step.parentId && (
+                <span className="text-[10px] font-medium text-indigo-400 uppercase tracking-wider">Follow-up</span>
+              )}
+              <p className={`text-sm ${step.status === 'pending' || step.status === 'cancelled' ? 'text-slate-500' : 'text-slate-200'}`}>
                 {step.query}
               </p>
               {step.status === 'searching' && (
-                <span className="text-[10px] font-medium text-blue-400 animate-pulse">Browsing web...</span>
+                <span className="text-[10px] font-medium text-blue-400 animate-pulse">
+                  {step.retryCount ? `Retrying (attempt ${step.retryCount + 1})...` : 'Browsing web...'}
+                </span>
+              )}
+              {step.status === 'analyzing' && (
+                <span className="text-[10px] font-medium text-blue-400 animate-pulse">Analyzing findings...</span>
+              )}
+              {step.status === 'failed' && (
+                <span className="block text-[10px] font-medium text-red-400" title={step.error}>
+                  Failed{step.error ? `: ${step.error.length > 80 ? step.error.slice(0, 80) + '...' : step.error}` : ''}
+                </span>
+              )}
+              {step.status === 'completed' && step.blockedPassages ? (
+                <span className="block text-[10px] font-medium text-amber-400" title="Gemini grounded these passages on domains from your block list, or outside your allow list">
+                  {step.blockedPassages} {step.blockedPassages === 1 ? 'passage' : 'passages'} removed: cited a blocked domain
+                </span>
+              ) : null}
+              {step.status === 'cancelled' && (
+                <span className="text-[10px] font-medium text-slate-500">Cancelled</span>
               )}
             </div>
           </div>
@@ -0,0 +1,31 @@
+import React from 'react';
+import { RESEARCH_TEMPLATES } from '../services/templates';
+
+interface TemplateSelectorProps {
+  value: string;
+  onChange: (id: string) => void;
+  disabled?: boolean;
+}
+
+export const TemplateSelector: React.FC<TemplateSelectorProps> = ({ value, onChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider mr-1">Mode</span>
+    {RESEARCH_TEMPLATES.map(t => (
+      <button
+        key={t.id}
+        type="button"
+        onClick={() => onChange(t.id)}
+        disabled={disabled}
+        title={t.description}
+        className={`px-3 py-1.5 rounded-full border text-xs font-medium transition-colors disabled:opacity-50 ${
+          value === t.id
+            ? 'bg-blue-600 border-blue-500 text-white'
+            : 'bg-slate-800/50 border-slate-700 text-slate-400 hover:text-slate-200'
+        }`}
+      >
+        <i className={`fas ${t.icon} mr-1.5`}></i>
+        {t.name}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,80 @@
+import React from 'react';
+import { VerifiedClaim, VerificationReport, ClaimVerdict } from '../types';
+
+const VERDICT_STYLES: Record<ClaimVerdict, { label: string; icon: string; className: string }> = {
+  supported: { label: 'Supported', icon: 'fa-circle-check', className: 'bg-green-500/10 border-green-500/30 text-green-400' },
+  contradicted: { label: 'Contradicted', icon: 'fa-circle-xmark', className: 'bg-red-500/10 border-red-500/30 text-red-400' },
+  unsupported: { label: 'Unsupported', icon: 'fa-circle-question', className: 'bg-amber-500/10 border-amber-500/30 text-amber-400' },
+  unverified: { label: 'Unverified', icon: 'fa-circle-minus', className: 'bg-slate-500/10 border-slate-500/30 text-slate-400' }
+};
+
+interface ClaimBadgeProps {
+  claim: VerifiedClaim;
+}
+
+/**
+ * Inline badge shown after a report sentence with the verdict and confidence of its claim.
+ */
+export const ClaimBadge: React.FC<ClaimBadgeProps> = ({ claim }) => {
+  const style = VERDICT_STYLES[claim.verdict];
+  return (
+    <span
+      title={`${claim.claim}${claim.explanation ? `\n\n${claim.explanation}` : ''}`}
+      className={`inline-flex items-center gap-1 ml-2 px-1.5 py-0.5 rounded border text-[11px] font-semibold not-italic align-middle whitespace-nowrap ${style.className}`}
+    >
+      <i className={`fas ${style.icon} text-[10px]`}></i>
+      {claim.verdict === 'unverified' ? style.label : `${Math.round(claim.confidence * 100)}%`}
+    </span>
+  );
+};
+
+interface VerificationPanelProps {
+  report: VerificationReport;
+}
+
+/**
+ * Verification summary: verdict counts and the statements that are not backed by the research.
+ */
+export const VerificationPanel: React.FC<VerificationPanelProps> = ({ report }) => {
+  const flagged = report.claims.filter(c => c.verdict !== 'supported');
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
+          <i className="fas fa-clipboard-check mr-2"></i>
+          Claim Verification
+        </h3>
+        <div className="flex items-center gap-2 text-xs">
+          {(['supported', 'contradicted', 'unsupported', 'unverified'] as ClaimVerdict[]).filter(verdict => verdict !== 'unverified' || report.unverified).map(verdict => (
+            <span key={verdict} className={`px-2 py-1 rounded border ${VERDICT_STYLES[verdict].className}`}>
+              {report[verdict]} {VERDICT_STYLES[verdict].label.toLowerCase()}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {report.claims.length === 0 && (
+        <p className="text-sm text-slate-500 italic">No checkable claims were found in the report.</p>
+      )}
+
+      {report.claims.length > 0 && flagged.length === 0 && (
+        <p className="text-sm text-green-400">All {report.claims.length} checked claims are supported by the research findings.</p>
+      )}
+
+      {flagged.length > 0 && (
+        <ul className="space-y-3">
+          {flagged.map(claim => (
+            <li key={claim.id} className="flex items-start gap-3 text-sm">
+              <i className={`fas ${VERDICT_STYLES[claim.verdict].icon} mt-1 ${VERDICT_STYLES[claim.verdict].className.split(' ').pop()}`}></i>
+              <div>
+                <p className="text-slate-200">{claim.claim}</p>
+                {claim.explanation && <p className="text-xs text-slate-500 mt-1">{claim.explanation}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
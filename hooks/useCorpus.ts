@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { corpus, CorpusDocument } from '../services/corpus';
+
+/**
+ * Exposes the shared document corpus to React: the loaded documents, an
+ * `addFiles` action that indexes files one by one, and per-file errors.
+ */
+export function useCorpus() {
+  const [documents, setDocuments] = useState<CorpusDocument[]>(() => corpus.getDocuments());
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => corpus.subscribe(setDocuments), []);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    setIsIndexing(true);
+    setErrors([]);
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        await corpus.addFile(file);
+      } catch (e: any) {
+        failures.push(e.message || `Could not read ${file.name}`);
+      }
+    }
+    setErrors(failures);
+    setIsIndexing(false);
+  }, []);
+
+  const removeDocument = useCallback((id: string) => corpus.removeDocument(id), []);
+  const clear = useCallback(() => corpus.clear(), []);
+
+  return { documents, isIndexing, errors, addFiles, removeDocument, clear };
+}
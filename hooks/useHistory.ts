@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { HistoryEntry } from '../types';
+import { historyStore } from '../services/historyStore';
+
+/**
+ * Exposes the research history to React. Storage errors are surfaced in
+ * `error` instead of breaking the app, since history is not essential.
+ */
+export function useHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    historyStore.list()
+      .then(setEntries)
+      .catch((e) => setError(e.message || 'Could not load history'));
+    return historyStore.subscribe(setEntries);
+  }, []);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (e: any) {
+      console.error('History error:', e);
+      setError(e.message || 'History update failed');
+    }
+  }, []);
+
+  const save = useCallback((entry: HistoryEntry) => run(() => historyStore.save(entry)), [run]);
+  const rename = useCallback((id: string, title: string) => run(() => historyStore.rename(id, title)), [run]);
+  const remove = useCallback((id: string) => run(() => historyStore.delete(id)), [run]);
+
+  return { entries, error, save, rename, remove };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { useResearch } from './useResearch';
+import { loadCheckpoint, saveCheckpoint } from '../services/checkpoints';
+import { IAIService } from '../services/IAIService';
+import { AppState } from '../types';
+
+/**
+ * Renders the hook once and returns its API; enough for actions that do not
+ * depend on a re-render.
+ */
+function renderResearch(): ReturnType<typeof useResearch> {
+  let research: ReturnType<typeof useResearch> | undefined;
+  const Probe = () => {
+    research = useResearch({} as IAIService);
+    return null;
+  };
+  renderToString(createElement(Probe));
+  return research!;
+}
+
+describe('useResearch', () => {
+  it('removes the checkpoint on reset', () => {
+    const research = renderResearch();
+    saveCheckpoint('topic', [{ id: 'step-0', query: 'alpha', status: 'completed', result: 'Findings' }], AppState.CANCELLED);
+
+    research.reset();
+
+    expect(loadCheckpoint()).toBeNull();
+  });
+});
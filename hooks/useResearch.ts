@@ -0,0 +1,198 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppState, ResearchStep, AnalysisResult } from '../types';
+import { IAIService } from '../services/IAIService';
+import { ResearchOrchestrator, ResearchEvent, ResearchOptions } from '../services/researchOrchestrator';
+import { replanStep as replanStepWithModel } from '../services/planReview';
+import { recordCheckpoint, clearCheckpoint, saveCheckpoint } from '../services/checkpoints';
+
+export interface UseResearchOptions extends ResearchOptions {
+  /**
+   * Pause in AppState.REVIEWING after planning so the user can edit the plan.
+   */
+  reviewPlan?: boolean;
+}
+
+/**
+ * Drives a ResearchOrchestrator and mirrors its lifecycle events into React state.
+ */
+export function useResearch(service: IAIService, options: UseResearchOptions = {}) {
+  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
+  const [steps, setSteps] = useState<ResearchStep[]>([]);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [synthesisDraft, setSynthesisDraft] = useState('');
+  const orchestratorRef = useRef<ResearchOrchestrator | null>(null);
+  const queryRef = useRef('');
+
+  // Abort any in-flight run when the component unmounts
+  useEffect(() => () => orchestratorRef.current?.cancel(), []);
+
+  // Keep the plan under review in the checkpoint, including the user's edits
+  useEffect(() => {
+    if (appState === AppState.REVIEWING) saveCheckpoint(queryRef.current, steps, AppState.REVIEWING);
+  }, [appState, steps]);
+
+  const handleEvent = useCallback((event: ResearchEvent) => {
+    switch (event.type) {
+      case 'plan-created':
+        setSteps(event.steps);
+        break;
+      case 'research-started':
+        setSteps(event.steps);
+        setAppState(AppState.RESEARCHING);
+        break;
+      case 'step-started':
+      case 'step-progress':
+      case 'step-retrying':
+      case 'step-completed':
+      case 'step-failed':
+      case 'steps-added':
+        setSteps(event.steps);
+        break;
+      case 'synthesis-started':
+        setSteps(event.steps);
+        setAppState(AppState.SYNTHESIZING);
+        break;
+      case 'synthesis-progress':
+        setSynthesisDraft(event.text);
+        break;
+      case 'verification-started':
+        setAppState(AppState.VERIFYING);
+        break;
+      case 'done':
+        setResult(event.result);
+        setAppState(AppState.COMPLETED);
+        break;
+      case 'cancelled':
+        setSteps(event.steps);
+        setAppState(AppState.CANCELLED);
+        break;
+      case 'error':
+        setSteps(event.steps);
+        setError(event.error);
+        setAppState(AppState.ERROR);
+        break;
+    }
+  }, []);
+
+  /**
+   * Replaces the current orchestrator with a fresh one whose events update
+   * React state and the checkpoint.
+   */
+  const createOrchestrator = useCallback((query: string): ResearchOrchestrator => {
+    orchestratorRef.current?.cancel();
+
+    const orchestrator = new ResearchOrchestrator(service, options);
+    orchestratorRef.current = orchestrator;
+    queryRef.current = query;
+    // Ignore events from runs that were superseded or reset
+    orchestrator.on((event) => {
+      if (orchestratorRef.current !== orchestrator) return;
+      handleEvent(event);
+      recordCheckpoint(query, event);
+    });
+
+    setError(null);
+    setResult(null);
+    setSynthesisDraft('');
+    return orchestrator;
+  }, [service, options.concurrency, options.retries, options.depth, options.breadth, options.maxSteps, options.verify, handleEvent]);
+
+  const startResearch = useCallback(async (query: string): Promise<AnalysisResult | null> => {
+    const orchestrator = createOrchestrator(query);
+    clearCheckpoint();
+    setAppState(AppState.PLANNING);
+    setSteps([]);
+
+    const planSteps = await orchestrator.plan(query);
+    if (!planSteps || orchestratorRef.current !== orchestrator) return null;
+
+    if (options.reviewPlan) {
+      setAppState(AppState.REVIEWING);
+      return null;
+    }
+    return orchestrator.execute(query, planSteps);
+  }, [createOrchestrator, options.reviewPlan]);
+
+  /**
+   * Continues an interrupted run, skipping the steps that already completed.
+   */
+  const resumeResearch = useCallback(async (query: string, savedSteps: ResearchStep[]): Promise<AnalysisResult | null> => {
+    const orchestrator = createOrchestrator(query);
+    setSteps(savedSteps);
+    setAppState(AppState.RESEARCHING);
+    return orchestrator.resume(query, savedSteps);
+  }, [createOrchestrator]);
+
+  /**
+   * Reopens a plan saved while it was under review, without asking the model again.
+   */
+  const restorePlan = useCallback((query: string, savedSteps: ResearchStep[]) => {
+    createOrchestrator(query);
+    setSteps(savedSteps);
+    setAppState(AppState.REVIEWING);
+  }, [createOrchestrator]);
+
+  /**
+   * Replaces the plan while in AppState.REVIEWING.
+   */
+  const updatePlan = useCallback((planSteps: ResearchStep[]) => {
+    setSteps(planSteps);
+  }, []);
+
+  /**
+   * Asks the model to rewrite a single step of the plan under review.
+   */
+  const replanStep = useCallback(async (stepId: string): Promise<void> => {
+    const step = steps.find(s => s.id === stepId);
+    if (!step) return;
+    const query = await replanStepWithModel(service, queryRef.current, step, steps);
+    setSteps(prev => prev.map(s => s.id === stepId ? { ...s, query } : s));
+  }, [service, steps]);
+
+  /**
+   * Starts research with the reviewed plan.
+   */
+  const confirmPlan = useCallback(async (): Promise<AnalysisResult | null> => {
+    const orchestrator = orchestratorRef.current;
+    const planSteps = steps.filter(s => s.query.trim());
+    if (!orchestrator || planSteps.length === 0) return null;
+    return orchestrator.execute(queryRef.current, planSteps);
+  }, [steps]);
+
+  const stop = useCallback(() => {
+    orchestratorRef.current?.cancel();
+  }, []);
+
+  /**
+   * Shows a previously completed result, e.g. one reopened from history.
+   */
+  const loadResult = useCallback((saved: AnalysisResult) => {
+    orchestratorRef.current?.cancel();
+    orchestratorRef.current = null;
+    setResult(saved);
+    setSteps(saved.steps);
+    setError(null);
+    setSynthesisDraft('');
+    setAppState(AppState.COMPLETED);
+  }, []);
+
+  /**
+   * Replaces the completed result, e.g. after a follow-up answer was added to it.
+   */
+  const updateResult = useCallback((updated: AnalysisResult) => {
+    setResult(updated);
+    setSteps(updated.steps);
+  }, []);
+
+  const reset = useCallback(() => {
+    orchestratorRef.current?.cancel();
+    orchestratorRef.current = null;
+    clearCheckpoint();
+    setAppState(AppState.IDLE);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return { appState, steps, result, error, synthesisDraft, startResearch, updatePlan, replanStep, confirmPlan, resumeResearch, restorePlan, stop, loadResult, updateResult, reset };
+}
@@ -1,24 +1,62 @@
 /**
  * Abstract interface for AI LLM services.
- * All providers (Gemini, MiniMax, Ollama) must implement this interface.
+ * All providers (Gemini, MiniMax, Ollama, OpenAI-compatible, Anthropic) must implement this interface.
+ * Every method accepts an optional AbortSignal that cancels the underlying requests.
  */
 import { ResearchStep, GroundingChunk } from "../types";
 
+export interface GenerateTextOptions {
+  temperature?: number;
+  /**
+   * Ask the model for a JSON response where the provider supports it.
+   */
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Findings of one research step. `blockedPassages` is set by providers that
+ * search on their own and had to cut passages grounded on blocked domains.
+ */
+export interface StepResult {
+  result: string;
+  sources: GroundingChunk[];
+  blockedPassages?: number;
+}
+
 export interface IAIService {
   /**
    * Generates a multi-step research plan for a complex query.
    */
-  generateResearchPlan(userQuery: string): Promise<ResearchStep[]>;
+  generateResearchPlan(userQuery: string, signal?: AbortSignal): Promise<ResearchStep[]>;
 
   /**
    * Executes a single search step to gather information.
    */
-  executeResearchStep(query: string): Promise<{ result: string; sources: GroundingChunk[] }>;
+  executeResearchStep(query: string, signal?: AbortSignal): Promise<StepResult>;
 
   /**
    * Final synthesis of all researched data.
    */
-  synthesizeAnalysis(originalQuery: string, steps: ResearchStep[]): Promise<{ summary: string; deepDive: string }>;
+  synthesizeAnalysis(originalQuery: string, steps: ResearchStep[], signal?: AbortSignal): Promise<{ summary: string; deepDive: string }>;
+
+  /**
+   * Streaming variant of executeResearchStep.
+   * Yields text deltas of the step analysis and returns the complete result with sources.
+   */
+  executeResearchStepStream(query: string, signal?: AbortSignal): AsyncGenerator<string, StepResult>;
+
+  /**
+   * Streaming variant of synthesizeAnalysis.
+   * Yields raw text deltas (summary, SYNTHESIS_DIVIDER, deep dive) and returns the parsed report.
+   */
+  synthesizeAnalysisStream(originalQuery: string, steps: ResearchStep[], signal?: AbortSignal): AsyncGenerator<string, { summary: string; deepDive: string }>;
+
+  /**
+   * Free-form completion used by pipeline stages that build their own prompts
+   * (e.g. follow-up question generation).
+   */
+  generateText(systemPrompt: string, userPrompt: string, options?: GenerateTextOptions): Promise<string>;
 
   /**
    * Returns the name of the provider for UI display.
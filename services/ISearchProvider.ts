@@ -0,0 +1,64 @@
+/**
+ * Abstract interface for web search backends.
+ * Adapters (Tavily, SearXNG, Brave) normalise their API responses to
+ * TavilySearchResult so the LLM services can stay backend-agnostic.
+ */
+
+export interface TavilySearchResult {
+  url: string;
+  title: string;
+  content: string;
+  /**
+   * Relevant chunks of the full page, filled in by the page reader.
+   */
+  readerContent?: string;
+  /**
+   * Publication date as reported by the backend (any format Date can parse), if known.
+   */
+  publishedDate?: string;
+  /**
+   * Set for results that come from the local document corpus rather than the web.
+   */
+  document?: {
+    documentId: string;
+    fileName: string;
+    page?: number;
+  };
+}
+
+/**
+ * User-provided settings for the selected backend.
+ */
+export interface SearchSettings {
+  apiKey?: string;
+  /**
+   * Instance URL for self-hosted backends, or a proxy URL for APIs that block browser requests.
+   */
+  baseUrl?: string;
+}
+
+export interface ISearchProvider {
+  /**
+   * Stable id stored in the provider config.
+   */
+  id: string;
+
+  /**
+   * Name for UI display.
+   */
+  name: string;
+
+  /**
+   * Short description for the settings panel.
+   */
+  description: string;
+
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  defaultBaseUrl?: string;
+
+  /**
+   * Runs a web search and returns up to `maxResults` normalised results.
+   */
+  search(searchTerm: string, maxResults: number, settings: SearchSettings, signal?: AbortSignal): Promise<TavilySearchResult[]>;
+}
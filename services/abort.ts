@@ -0,0 +1,20 @@
+/**
+ * Helpers for cancelling in-flight research runs.
+ */
+
+/**
+ * Returns true when an error was raised because an AbortSignal fired.
+ * fetch, stream readers and the Gemini SDK all reject with an `AbortError`.
+ */
+export function isAbortError(e: unknown): boolean {
+  return (e as { name?: string } | null)?.name === 'AbortError';
+}
+
+/**
+ * Throws an `AbortError` if the signal has already been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('The research run was cancelled.', 'AbortError');
+  }
+}
@@ -0,0 +1,202 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AnthropicService } from './anthropicService';
+import { HttpError, isTransientError } from './retry';
+import { drainStream } from './streaming';
+
+interface RecordedRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+type MessagesHandler = (body: any, res: ServerResponse) => void;
+
+/**
+ * Writes a Messages API event stream: one `event:`/`data:` pair per event.
+ */
+function writeSse(res: ServerResponse, events: object[]): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const event of events) {
+    res.write(`event: ${(event as { type: string }).type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+  res.end();
+}
+
+function textStream(chunks: string[]): object[] {
+  return [
+    { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', content: [] } },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'ping' },
+    ...chunks.map(text => ({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } })),
+    { type: 'content_block_stop', index: 0 },
+    { type: 'message_delta', delta: { stop_reason: 'end_turn' } },
+    { type: 'message_stop' }
+  ];
+}
+
+function sendJson(res: ServerResponse, status: number, body: object): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+describe('AnthropicService', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let onMessages: MessagesHandler;
+
+  beforeAll(async () => {
+    // Serves the Messages API at /v1/messages and a Tavily-style /search
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : undefined;
+        requests.push({ path: req.url || '', headers: req.headers, body });
+        if (req.url === '/search') {
+          sendJson(res, 200, {
+            results: [
+              { url: 'https://a.example/report', title: 'Report A', content: 'Solar capacity grew 30% in 2024.' },
+              { url: 'https://b.example/study', title: 'Study B', content: 'Costs fell for the fifth year.' }
+            ]
+          });
+        } else if (req.url === '/v1/messages') {
+          onMessages(body, res);
+        } else {
+          sendJson(res, 404, { type: 'error', error: { type: 'not_found_error', message: 'Not found' } });
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    onMessages = (_, res) => sendJson(res, 200, { id: 'msg_1', type: 'message', role: 'assistant', content: [{ type: 'text', text: 'OK' }], stop_reason: 'end_turn' });
+    localStorage.setItem('insightflow_provider_config', JSON.stringify({
+      provider: 'anthropic',
+      apiKeys: { anthropic: 'sk-ant-test', openai: 'sk-other' },
+      anthropicBaseUrl: `${baseUrl}/`,
+      anthropicModel: 'claude-test',
+      searchProvider: 'tavily',
+      searchApiKey: 'tvly-test',
+      searchBaseUrl: baseUrl
+    }));
+  });
+
+  const messageRequests = () => requests.filter(r => r.path === '/v1/messages');
+
+  it('sends Messages API headers and lifts the system prompt out of the messages', async () => {
+    const service = new AnthropicService();
+
+    const text = await service.generateText('You are terse.', 'Say OK.', { temperature: 0.2 });
+
+    expect(text).toBe('OK');
+    const [request] = messageRequests();
+    expect(request.headers['x-api-key']).toBe('sk-ant-test');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request.headers['anthropic-dangerous-direct-browser-access']).toBe('true');
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['authorization']).toBeUndefined();
+    expect(request.body).toEqual({
+      model: 'claude-test',
+      system: 'You are terse.',
+      messages: [{ role: 'user', content: 'Say OK.' }],
+      max_tokens: 4096,
+      temperature: 0.2,
+      stream: false
+    });
+  });
+
+  it('streams content_block_delta text from a research step', async () => {
+    onMessages = (_, res) => writeSse(res, textStream(['Capacity ', 'grew 30% ', '[1].']));
+    const service = new AnthropicService();
+
+    const deltas: string[] = [];
+    const result = await drainStream(service.executeResearchStepStream('solar growth'), delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Capacity ', 'grew 30% ', '[1].']);
+    expect(result.result).toBe('Capacity grew 30% [1].');
+    expect(result.sources.map(s => s.web?.uri)).toEqual(['https://a.example/report', 'https://b.example/study']);
+
+    const search = requests.find(r => r.path === '/search');
+    expect(search?.body).toMatchObject({ api_key: 'tvly-test', query: 'solar growth' });
+    const [request] = messageRequests();
+    expect(request.body.stream).toBe(true);
+    expect(request.body.system).toBeTruthy();
+    expect(request.body.messages).toHaveLength(1);
+    expect(request.body.messages[0].role).toBe('user');
+    expect(request.body.messages[0].content).toContain('Report A');
+  });
+
+  it('streams the synthesis and splits it at the divider', async () => {
+    onMessages = (_, res) => writeSse(res, textStream(['Short summary.\n===DEEP', ' DIVE===\n', '## Deep dive\n\nDetails.']));
+    const service = new AnthropicService();
+
+    const deltas: string[] = [];
+    const result = await drainStream(
+      service.synthesizeAnalysisStream('solar', [{ id: 'step-0', query: 'solar growth', status: 'completed', result: 'Capacity grew.' }]),
+      delta => deltas.push(delta)
+    );
+
+    expect(deltas.join('')).toBe('Short summary.\n===DEEP DIVE===\n## Deep dive\n\nDetails.');
+    expect(result).toEqual({ summary: 'Short summary.', deepDive: '## Deep dive\n\nDetails.' });
+    expect(messageRequests()[0].body.messages[0].content).toContain('Capacity grew.');
+  });
+
+  it.each([
+    [429, 'rate_limit_error', true],
+    [529, 'overloaded_error', true],
+    [500, 'api_error', true],
+    [401, 'authentication_error', false]
+  ])('maps HTTP %i to an HttpError', async (status, type, transient) => {
+    onMessages = (_, res) => sendJson(res, status, { type: 'error', error: { type, message: 'Request failed' } });
+    const service = new AnthropicService();
+
+    const error = await service.generateText('System', 'User').catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(status);
+    expect(error.message).toContain(type);
+    expect(isTransientError(error)).toBe(transient);
+  });
+
+  it('rethrows transient errors from a streamed step for the retry policy', async () => {
+    onMessages = (_, res) => sendJson(res, 529, { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } });
+    const service = new AnthropicService();
+
+    const error = await drainStream(service.executeResearchStepStream('solar growth'), () => {}).catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(529);
+  });
+
+  it.each([
+    ['overloaded_error', 529, true],
+    ['api_error', 500, true],
+    ['rate_limit_error', 429, true],
+    ['invalid_request_error', 400, false],
+    ['request_too_large', 413, false]
+  ])('turns a %s event inside the stream into an HttpError with status %i', async (type, status, transient) => {
+    onMessages = (_, res) => writeSse(res, [
+      ...textStream(['Partial ']).slice(0, 4),
+      { type: 'error', error: { type, message: 'Stream failed' } }
+    ]);
+    const service = new AnthropicService();
+
+    const deltas: string[] = [];
+    const error = await drainStream(service.executeResearchStepStream('solar growth'), delta => deltas.push(delta)).catch(e => e);
+
+    expect(deltas).toEqual(['Partial ']);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(status);
+    expect(isTransientError(error)).toBe(transient);
+  });
+});
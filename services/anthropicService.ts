@@ -0,0 +1,171 @@
+/**
+ * Anthropic Messages API service implementation.
+ * Talks to `/v1/messages` at a configurable base URL (the Anthropic API or any
+ * server speaking the same wire format) and uses Tavily for search.
+ */
+import { ChatMessage, ChatResearchService } from "./chatResearchService";
+import { HttpError, ensureOk } from "./retry";
+import { readSse } from "./streaming";
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+interface AnthropicRequest {
+  model: string;
+  system?: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  temperature?: number;
+  stream?: boolean;
+}
+
+interface AnthropicResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  content: Array<{
+    type: string;
+    text?: string;
+  }>;
+  stop_reason: string | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Server-sent event payloads of a streamed Messages response.
+ * Only text deltas and errors matter here; other event types are ignored.
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: {
+    type: string;
+    text?: string;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+export const DEFAULT_ANTHROPIC_BASE_URL = "https://api.anthropic.com";
+export const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-5";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * HTTP status behind each error type, for errors that arrive as stream events
+ * after the response has started, so the retry policy treats them like the
+ * same error returned as a response.
+ */
+const ANTHROPIC_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529
+};
+
+export class AnthropicService extends ChatResearchService {
+  protected readonly provider = 'anthropic';
+
+  private getConfig(): { apiKey: string; baseUrl: string; model: string } {
+    const settings = this.loadSettings();
+    return {
+      apiKey: settings.apiKey,
+      baseUrl: settings.anthropicBaseUrl || DEFAULT_ANTHROPIC_BASE_URL,
+      model: settings.anthropicModel || DEFAULT_ANTHROPIC_MODEL
+    };
+  }
+
+  getProviderName(): string {
+    return `Anthropic ${this.getConfig().model}`;
+  }
+
+  /**
+   * Builds a Messages API request. System messages are lifted into the
+   * top-level `system` field, as the Messages format requires.
+   */
+  private buildRequest(messages: ChatMessage[], temperature: number, stream: boolean): { url: string; init: RequestInit } {
+    const config = this.getConfig();
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    if (!config.apiKey) {
+      throw new Error("Anthropic API key not configured. Please configure in settings.");
+    }
+
+    const system = messages.filter(m => m.role === "system").map(m => m.content).join("\n\n");
+    const request: AnthropicRequest = {
+      model: config.model,
+      system: system || undefined,
+      messages: messages
+        .filter((m): m is ChatMessage & { role: "user" | "assistant" } => m.role !== "system")
+        .map(m => ({ role: m.role, content: m.content })),
+      max_tokens: 4096,
+      temperature,
+      stream,
+    };
+
+    return {
+      url: `${baseUrl}/v1/messages`,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": config.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+          // Required for calls made directly from the browser
+          "anthropic-dangerous-direct-browser-access": "true",
+        },
+        body: JSON.stringify(request),
+      },
+    };
+  }
+
+  /**
+   * Calls the Messages API.
+   */
+  protected async complete(messages: ChatMessage[], temperature: number = 0.7, signal?: AbortSignal): Promise<string> {
+    const { url, init } = this.buildRequest(messages, temperature, false);
+    const response = await fetch(url, { ...init, signal });
+    await ensureOk(response, 'Anthropic API');
+
+    const data: AnthropicResponse = await response.json();
+    const text = (data.content || [])
+      .filter(block => block.type === "text")
+      .map(block => block.text || "")
+      .join("");
+
+    if (!text) {
+      throw new Error("No response from Anthropic API");
+    }
+
+    return text;
+  }
+
+  /**
+   * Streaming variant of complete. Yields text deltas from the Messages SSE stream.
+   */
+  protected async *completeStream(messages: ChatMessage[], temperature: number = 0.7, signal?: AbortSignal): AsyncGenerator<string> {
+    const { url, init } = this.buildRequest(messages, temperature, true);
+    const response = await fetch(url, { ...init, signal });
+    await ensureOk(response, 'Anthropic API');
+
+    for await (const event of readSse<AnthropicStreamEvent>(response)) {
+      if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+        yield event.delta.text;
+      } else if (event.type === "error") {
+        const status = ANTHROPIC_ERROR_STATUS[event.error?.type || ""] || 500;
+        throw new HttpError(status, `Anthropic API error: ${event.error?.message || "stream error"}`);
+      }
+    }
+  }
+}
+
+export const anthropic = new AnthropicService();
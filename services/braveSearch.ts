@@ -0,0 +1,53 @@
+/**
+ * Brave Search API adapter.
+ * The API does not send CORS headers, so browser requests need the base URL
+ * pointed at a proxy that forwards to https://api.search.brave.com.
+ */
+import { ISearchProvider, SearchSettings, TavilySearchResult } from "./ISearchProvider";
+import { HttpError } from "./retry";
+
+export const braveSearch: ISearchProvider = {
+  id: "brave",
+  name: "Brave Search",
+  description: "Independent web index, requires an API key (and a CORS proxy in the browser)",
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  defaultBaseUrl: "https://api.search.brave.com",
+
+  async search(searchTerm: string, maxResults: number, settings: SearchSettings, signal?: AbortSignal): Promise<TavilySearchResult[]> {
+    if (!settings.apiKey) {
+      throw new Error("Brave Search API key is not configured");
+    }
+
+    const baseUrl = (settings.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+    const params = new URLSearchParams({
+      q: searchTerm,
+      count: String(Math.min(maxResults, 20)),
+    });
+
+    const response = await fetch(`${baseUrl}/res/v1/web/search?${params.toString()}`, {
+      headers: {
+        Accept: "application/json",
+        "X-Subscription-Token": settings.apiKey,
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new HttpError(response.status, `Brave search failed: ${error}`);
+    }
+
+    const data = await response.json();
+
+    return (data.web?.results || [])
+      .slice(0, maxResults)
+      .map((r: any) => ({
+        url: r.url || "",
+        title: r.title || "",
+        // Descriptions contain <strong> highlight tags
+        content: (r.description || "").replace(/<[^>]+>/g, ""),
+        publishedDate: r.page_age || undefined,
+      }));
+  },
+};
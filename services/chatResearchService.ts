@@ -0,0 +1,216 @@
+/**
+ * Research pipeline shared by the chat-style providers (MiniMax, Ollama,
+ * OpenAI-compatible, Anthropic).
+ * Planning, step analysis and synthesis only differ in how a list of chat
+ * messages reaches the model, so subclasses implement the two transport
+ * methods and everything else — prompts, search, JSON extraction, fallbacks
+ * and streaming — lives here once.
+ */
+import { IAIService, GenerateTextOptions } from "./IAIService";
+import { ResearchStep, GroundingChunk, ProviderConfig, ProviderType } from "../types";
+import { SearchService } from "./searchService";
+import { isAbortError } from "./abort";
+import { isTransientError } from "./retry";
+import { splitSynthesis } from "./streaming";
+import { formatResearchData } from "./citations";
+import { getActiveTemplate, limitPlan } from "./templates";
+import { PromptName, renderPrompt } from "./prompts";
+import { padPlan } from "./planReview";
+import { getApiKey } from "./providerKeys";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+const NO_RESULTS = "No information found for this query.";
+
+export abstract class ChatResearchService implements IAIService {
+  protected search = new SearchService();
+
+  abstract getProviderName(): string;
+
+  /**
+   * Provider whose API key `loadSettings` returns.
+   */
+  protected abstract readonly provider: ProviderType;
+
+  /**
+   * Sends the messages and returns the complete reply.
+   */
+  protected abstract complete(messages: ChatMessage[], temperature: number, signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Sends the messages and yields the reply as it streams.
+   */
+  protected abstract completeStream(messages: ChatMessage[], temperature: number, signal?: AbortSignal): AsyncGenerator<string>;
+
+  /**
+   * Saved settings with this provider's API key. Read on every call, so
+   * changes in the settings panel apply without a reload; empty if nothing
+   * is saved.
+   */
+  protected loadSettings(): Partial<ProviderConfig> & { apiKey: string } {
+    let settings: Partial<ProviderConfig> = {};
+    try {
+      const config = localStorage.getItem('insightflow_provider_config');
+      if (config) settings = JSON.parse(config);
+    } catch (e) {
+      console.error(`Error loading ${this.provider} config:`, e);
+    }
+    return { ...settings, apiKey: getApiKey(settings, this.provider) };
+  }
+
+  /**
+   * Search API key from the provider settings, if any.
+   */
+  protected getSearchApiKey(): string | undefined {
+    return this.loadSettings().searchApiKey || undefined;
+  }
+
+  /**
+   * System and user message rendered from a pair of registry prompts.
+   */
+  protected promptMessages(system: PromptName, user: PromptName, variables: Record<string, string> = {}): ChatMessage[] {
+    return [
+      { role: "system", content: renderPrompt(system, variables) },
+      { role: "user", content: renderPrompt(user, variables) }
+    ];
+  }
+
+  /**
+   * Free-form completion with a system prompt.
+   */
+  async generateText(systemPrompt: string, userPrompt: string, options: GenerateTextOptions = {}): Promise<string> {
+    const messages: ChatMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt }
+    ];
+    return this.complete(messages, options.temperature ?? 0.7, options.signal);
+  }
+
+  /**
+   * Generates a multi-step research plan with the active template's number of steps.
+   */
+  async generateResearchPlan(userQuery: string, signal?: AbortSignal): Promise<ResearchStep[]> {
+    const template = getActiveTemplate();
+    const messages = this.promptMessages('plan.system', 'plan.user', { query: userQuery });
+
+    let steps: ResearchStep[];
+    try {
+      const response = await this.complete(messages, 0.5, signal);
+      // Extract JSON from response (in case model adds formatting)
+      const jsonMatch = response.match(/\[[\s\S]*\]/);
+      const plan = jsonMatch ? JSON.parse(jsonMatch[0]) : JSON.parse(response);
+
+      steps = limitPlan(plan, template).map((p: any, index: number) => ({
+        id: `step-${index}`,
+        query: p.query,
+        status: 'pending' as const
+      }));
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.error("Failed to parse research plan", e);
+      steps = [{ id: 'step-0', query: userQuery, status: 'pending' }];
+    }
+    return padPlan(this, userQuery, steps, template, signal);
+  }
+
+  /**
+   * Executes a research step: web search, then LLM analysis of the results.
+   */
+  async executeResearchStep(query: string, signal?: AbortSignal): Promise<{ result: string; sources: GroundingChunk[] }> {
+    const { results, sources } = await this.search.search(query, 5, this.getSearchApiKey(), signal);
+    if (results.length === 0) {
+      return { result: NO_RESULTS, sources: [] };
+    }
+
+    const searchContext = this.search.summarizeResults(query, results);
+    const messages = this.promptMessages('step.system', 'step.user', { query, searchResults: searchContext });
+
+    try {
+      const analysis = await this.complete(messages, 0.7, signal);
+      return { result: analysis, sources };
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.error("Analysis failed", e);
+      return { result: searchContext, sources };
+    }
+  }
+
+  /**
+   * Synthesizes all research steps into a final report.
+   */
+  async synthesizeAnalysis(originalQuery: string, steps: ResearchStep[], signal?: AbortSignal): Promise<{ summary: string; deepDive: string }> {
+    const researchData = formatResearchData(steps);
+    const messages = this.promptMessages('synthesis.system', 'synthesis.user', { query: originalQuery, findings: researchData });
+
+    try {
+      const response = await this.complete(messages, 0.7, signal);
+      // Extract JSON from response
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const result = jsonMatch ? JSON.parse(jsonMatch[0]) : JSON.parse(response);
+      return {
+        summary: result.summary || "Analysis complete.",
+        deepDive: result.deepDive || response
+      };
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      return {
+        summary: "Analysis complete.",
+        deepDive: researchData
+      };
+    }
+  }
+
+  /**
+   * Streaming variant of executeResearchStep.
+   */
+  async *executeResearchStepStream(query: string, signal?: AbortSignal): AsyncGenerator<string, { result: string; sources: GroundingChunk[] }> {
+    const { results, sources } = await this.search.search(query, 5, this.getSearchApiKey(), signal);
+    if (results.length === 0) {
+      yield NO_RESULTS;
+      return { result: NO_RESULTS, sources: [] };
+    }
+
+    const searchContext = this.search.summarizeResults(query, results);
+    const messages = this.promptMessages('step.system', 'step.user', { query, searchResults: searchContext });
+
+    let analysis = "";
+    try {
+      for await (const delta of this.completeStream(messages, 0.7, signal)) {
+        analysis += delta;
+        yield delta;
+      }
+    } catch (e) {
+      // Fall back to the raw search context if nothing was streamed yet;
+      // transient errors are left to the caller's retry policy
+      if (analysis || isAbortError(e) || isTransientError(e)) throw e;
+      console.error("Analysis failed", e);
+      yield searchContext;
+      return { result: searchContext, sources };
+    }
+
+    return { result: analysis, sources };
+  }
+
+  /**
+   * Streaming variant of synthesizeAnalysis.
+   */
+  async *synthesizeAnalysisStream(originalQuery: string, steps: ResearchStep[], signal?: AbortSignal): AsyncGenerator<string, { summary: string; deepDive: string }> {
+    const researchData = formatResearchData(steps);
+    const messages = this.promptMessages('synthesis.stream.system', 'synthesis.stream.user', { query: originalQuery, findings: researchData });
+
+    let text = "";
+    for await (const delta of this.completeStream(messages, 0.7, signal)) {
+      text += delta;
+      yield delta;
+    }
+
+    const { summary, deepDive } = splitSynthesis(text);
+    return {
+      summary: deepDive ? summary : "Analysis complete.",
+      deepDive: deepDive || summary || researchData
+    };
+  }
+}
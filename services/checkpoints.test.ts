@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { clearCheckpoint, countCompleted, loadCheckpoint, recordCheckpoint, saveCheckpoint } from './checkpoints';
+import { ResearchOrchestrator } from './researchOrchestrator';
+import { IAIService } from './IAIService';
+import { HttpError } from './retry';
+import { AppState, ResearchStep } from '../types';
+
+/**
+ * IAIService double: plans `queries`, answers every step with its query and
+ * fails the synthesis while `failSynthesis` is set.
+ */
+function fakeService(queries: string[]): IAIService & { stepCalls: string[]; failSynthesis: boolean } {
+  const service = {
+    stepCalls: [] as string[],
+    failSynthesis: true,
+    generateResearchPlan: async () => queries.map((query, i): ResearchStep => ({ id: `step-${i}`, query, status: 'pending' })),
+    async *executeResearchStepStream(query: string) {
+      service.stepCalls.push(query);
+      yield `${query} findings`;
+      return { result: `${query} findings`, sources: [] };
+    },
+    async *synthesizeAnalysisStream() {
+      if (service.failSynthesis) throw new HttpError(400, 'Bad request');
+      yield 'Summary';
+      return { summary: 'Summary', deepDive: 'Report' };
+    },
+    generateText: async () => '[]',
+    getProviderName: () => 'Fake'
+  };
+  return service as unknown as IAIService & { stepCalls: string[]; failSynthesis: boolean };
+}
+
+function track(orchestrator: ResearchOrchestrator, query: string): void {
+  orchestrator.on(event => recordCheckpoint(query, event));
+}
+
+const plan: ResearchStep[] = [{ id: 'step-0', query: 'alpha', status: 'pending' }];
+
+describe('research checkpoints', () => {
+  it('restores a run that failed and resumes it without redoing completed steps', async () => {
+    const service = fakeService(['alpha', 'beta']);
+    const failed = new ResearchOrchestrator(service, { retries: 0 });
+    track(failed, 'topic');
+
+    expect(await failed.run('topic')).toBeNull();
+
+    const checkpoint = loadCheckpoint();
+    expect(checkpoint).toMatchObject({ query: 'topic', appState: AppState.ERROR });
+    expect(checkpoint!.steps.map(s => [s.query, s.status, s.result])).toEqual([
+      ['alpha', 'completed', 'alpha findings'],
+      ['beta', 'completed', 'beta findings']
+    ]);
+    expect(countCompleted(checkpoint!)).toBe(2);
+
+    service.failSynthesis = false;
+    const resumed = new ResearchOrchestrator(service, { retries: 0 });
+    track(resumed, checkpoint!.query);
+    const result = await resumed.resume(checkpoint!.query, checkpoint!.steps);
+
+    expect(result?.deepDive).toBe('Report');
+    expect(service.stepCalls).toEqual(['alpha', 'beta']);
+    // The finished report removes the checkpoint
+    expect(loadCheckpoint()).toBeNull();
+  });
+
+  it('saves the plan for review as soon as it is created', async () => {
+    const orchestrator = new ResearchOrchestrator(fakeService(['alpha', 'beta']));
+    track(orchestrator, 'topic');
+
+    await orchestrator.plan('topic');
+
+    expect(loadCheckpoint()).toMatchObject({ query: 'topic', appState: AppState.REVIEWING });
+    expect(loadCheckpoint()!.steps.map(s => s.query)).toEqual(['alpha', 'beta']);
+  });
+
+  it('ignores checkpoints without steps or from another version', () => {
+    saveCheckpoint('topic', [], AppState.CANCELLED);
+    expect(loadCheckpoint()).toBeNull();
+
+    localStorage.setItem('insightflow_checkpoint', JSON.stringify({ version: 0, query: 'topic', steps: plan }));
+    expect(loadCheckpoint()).toBeNull();
+  });
+
+  it('removes the checkpoint when cleared', () => {
+    saveCheckpoint('topic', plan, AppState.CANCELLED);
+
+    clearCheckpoint();
+
+    expect(loadCheckpoint()).toBeNull();
+  });
+});
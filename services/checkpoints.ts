@@ -0,0 +1,96 @@
+/**
+ * Checkpoints of the research run in progress.
+ * The pipeline state is saved to localStorage once the plan exists and after
+ * every step, so a run interrupted by a closed tab, a cancel or a provider
+ * error can be resumed without redoing planning and the steps that already
+ * completed. A plan still under review is saved with every edit and reopens
+ * for review.
+ */
+import { AppState, ResearchStep } from "../types";
+import { ResearchEvent } from "./researchOrchestrator";
+
+const CHECKPOINT_KEY = 'insightflow_checkpoint';
+const CHECKPOINT_VERSION = 1;
+
+export interface ResearchCheckpoint {
+  version: number;
+  query: string;
+  steps: ResearchStep[];
+  appState: AppState; // State the run was in when the checkpoint was written
+  updatedAt: number;
+}
+
+export function saveCheckpoint(query: string, steps: ResearchStep[], appState: AppState): void {
+  const checkpoint: ResearchCheckpoint = { version: CHECKPOINT_VERSION, query, steps, appState, updatedAt: Date.now() };
+  try {
+    localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+  } catch (e) {
+    // Quota errors must not break the run; the checkpoint is only a convenience
+    console.warn('Could not save research checkpoint:', e);
+  }
+}
+
+/**
+ * The saved checkpoint, or null if there is none or it cannot be used.
+ */
+export function loadCheckpoint(): ResearchCheckpoint | null {
+  try {
+    const saved = localStorage.getItem(CHECKPOINT_KEY);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    if (
+      parsed?.version !== CHECKPOINT_VERSION ||
+      typeof parsed.query !== 'string' ||
+      !Array.isArray(parsed.steps) ||
+      parsed.steps.length === 0
+    ) {
+      return null;
+    }
+    return parsed;
+  } catch (e) {
+    console.error('Error loading research checkpoint:', e);
+    return null;
+  }
+}
+
+export function clearCheckpoint(): void {
+  localStorage.removeItem(CHECKPOINT_KEY);
+}
+
+/**
+ * Updates the checkpoint for a lifecycle event: written when the plan is
+ * created, whenever a step settles or the run stops early, removed once the
+ * report is done.
+ */
+export function recordCheckpoint(query: string, event: ResearchEvent): void {
+  switch (event.type) {
+    case 'plan-created':
+      if (event.steps.length > 0) saveCheckpoint(query, event.steps, AppState.REVIEWING);
+      break;
+    case 'research-started':
+    case 'step-completed':
+    case 'step-failed':
+    case 'steps-added':
+      saveCheckpoint(query, event.steps, AppState.RESEARCHING);
+      break;
+    case 'synthesis-started':
+      saveCheckpoint(query, event.steps, AppState.SYNTHESIZING);
+      break;
+    case 'cancelled':
+      if (event.steps.length > 0) saveCheckpoint(query, event.steps, AppState.CANCELLED);
+      break;
+    case 'error':
+      if (event.steps.length > 0) saveCheckpoint(query, event.steps, AppState.ERROR);
+      break;
+    case 'done':
+      clearCheckpoint();
+      break;
+  }
+}
+
+/**
+ * Number of steps of a checkpoint that do not need to run again.
+ */
+export function countCompleted(checkpoint: ResearchCheckpoint): number {
+  return checkpoint.steps.filter(s => s.status === 'completed').length;
+}
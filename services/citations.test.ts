@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { formatResearchData, globalFindings } from './citations';
+import { buildReportDocument } from './reportDocument';
+import { mergeSources } from './sources';
+import { GroundingChunk, ResearchStep } from '../types';
+
+const source = (uri: string): GroundingChunk => ({ web: { uri, title: uri } });
+
+const steps: ResearchStep[] = [
+  { id: 'step-0', query: 'alpha', status: 'completed', result: 'A grew [1], B shrank [2].', sources: [source('https://a.example'), source('https://b.example')] },
+  { id: 'step-1', query: 'beta', status: 'completed', result: 'C is new [1]; B again [2][3].', sources: [source('https://c.example'), source('https://b.example')] }
+];
+
+describe('citation numbering', () => {
+  it('renumbers step-local markers to the global source index', () => {
+    const allSources = mergeSources(steps);
+
+    expect(globalFindings(steps[0], allSources)).toBe('A grew [1], B shrank [2].');
+    // [3] has no source in the step and is dropped
+    expect(globalFindings(steps[1], allSources)).toBe('C is new [3]; B again [2].');
+  });
+
+  it('uses global numbers in the synthesis context', () => {
+    const data = formatResearchData(steps);
+
+    expect(data).toContain('Sources:\n[3] https://c.example (https://c.example)\n[2] https://b.example (https://b.example)\nFindings: C is new [3]; B again [2].');
+  });
+
+  it('links appendix citations to the bibliography', () => {
+    const document = buildReportDocument('topic', { summary: '', deepDive: '', steps, allSources: mergeSources(steps) }, 'Fake');
+
+    const runs = document.appendix[1].blocks.flatMap(block => block.type === 'paragraph' ? block.content : []);
+    expect(runs.filter(run => run.citation).map(run => run.citation)).toEqual([3, 2]);
+  });
+});
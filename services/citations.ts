@@ -0,0 +1,104 @@
+/**
+ * Inline citations.
+ * Sources of all research steps are merged into one numbered index (the order
+ * of `AnalysisResult.allSources`); synthesis prompts list each step's findings
+ * with the numbers of its sources so the model can cite them as `[n]`.
+ * Step findings are written against the step's own search context, where
+ * `[n]` is the step's n-th source; they are renumbered to the global index
+ * before they reach a prompt or an export.
+ */
+import { GroundingChunk, ResearchStep } from "../types";
+import { mergeSources, sourceKey, sourceLabel } from "./sources";
+import { formatCredibility } from "./credibility";
+
+/**
+ * Instruction appended to every synthesis prompt.
+ */
+export const CITATION_INSTRUCTIONS = `Cite the sources behind every factual claim inline with their numbers in square brackets, e.g. "[2]" or "[1][4]". Only use numbers listed under "Sources" in the research findings and never invent new ones.`;
+
+/**
+ * Matches a citation marker such as `[3]` or `[1, 4]`, but not Markdown links like `[3](url)`.
+ */
+export const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+/**
+ * Findings of a step with its step-local markers renumbered to `allSources`.
+ */
+export function globalFindings(step: ResearchStep, allSources: GroundingChunk[]): string {
+  return remapCitations(step.result || '', step.sources || [], allSources);
+}
+
+/**
+ * Formats completed steps for a synthesis prompt, listing each step's sources
+ * and citing them in its findings under their global citation numbers.
+ * `allSources` defaults to the sources of `steps`; pass the full index when
+ * formatting a subset of the steps.
+ */
+export function formatResearchData(steps: ResearchStep[], allSources: GroundingChunk[] = mergeSources(steps)): string {
+  const index = new Map(allSources.map((source, i) => [sourceKey(source), i + 1]));
+
+  return steps
+    .map(s => {
+      // Sources excluded from the index (e.g. by the domain lists) are left out
+      const sources = Array.from(new Set((s.sources || []).map(sourceKey)))
+        .filter(key => index.has(key))
+        .map(key => {
+          const source = (s.sources || []).find(src => sourceKey(src) === key);
+          const location = source.web?.uri ? ` (${source.web.uri})` : '';
+          return `[${index.get(key)}] ${sourceLabel(source)}${location}`;
+        });
+      const sourceList = sources.length > 0 ? sources.join("\n") : "(none)";
+      return `Query: ${s.query}\nSources:\n${sourceList}\nFindings: ${globalFindings(s, allSources)}`;
+    })
+    .join("\n\n---\n\n");
+}
+
+/**
+ * Removes citation markers that do not point at one of `sourceCount` sources.
+ * Returns the cleaned text and the invalid numbers that were dropped.
+ */
+export function validateCitations(text: string, sourceCount: number): { text: string; invalid: number[] } {
+  const invalid: number[] = [];
+  // Also match the spaces before a marker so that dropping it leaves no gap
+  const pattern = new RegExp(`( *)${CITATION_PATTERN.source}`, 'g');
+  const cleaned = text.replace(pattern, (_, spaces: string, group: string) => {
+    const numbers = group.split(',').map(n => parseInt(n.trim(), 10));
+    const valid = numbers.filter(n => {
+      const ok = n >= 1 && n <= sourceCount;
+      if (!ok) invalid.push(n);
+      return ok;
+    });
+    return valid.length > 0 ? spaces + valid.map(n => `[${n}]`).join('') : '';
+  });
+
+  return { text: cleaned, invalid: Array.from(new Set(invalid)) };
+}
+
+/**
+ * Numbered reference entry used by the exports.
+ */
+export function formatReference(source: GroundingChunk, index: number): string {
+  const credibility = source.credibility ? ` [credibility ${formatCredibility(source.credibility)}]` : '';
+  if (source.document) {
+    return `[${index + 1}] ${sourceLabel(source)} (local document)${credibility}`;
+  }
+  return `[${index + 1}] ${sourceLabel(source)}: ${source.web?.uri}${credibility}`;
+}
+
+/**
+ * Renumbers citation markers from one source index to another, e.g. when an
+ * answer written against one list of sources is added to a report whose
+ * list differs. Markers for sources missing from `to` are dropped.
+ */
+export function remapCitations(text: string, from: GroundingChunk[], to: GroundingChunk[]): string {
+  const target = new Map(to.map((source, i) => [sourceKey(source), i + 1]));
+  const pattern = new RegExp(`( *)${CITATION_PATTERN.source}`, 'g');
+  return text.replace(pattern, (_, spaces: string, group: string) => {
+    const mapped = group
+      .split(',')
+      .map(n => from[parseInt(n.trim(), 10) - 1])
+      .map(source => source && target.get(sourceKey(source)))
+      .filter((n): n is number => !!n);
+    return mapped.length > 0 ? spaces + mapped.map(n => `[${n}]`).join('') : '';
+  });
+}
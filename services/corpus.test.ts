@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentCorpus, hitToSearchResult } from './corpus';
+
+const textFile = (name: string, text: string) => new File([text], name, { type: 'text/plain' });
+
+async function corpusWith(files: Record<string, string>): Promise<DocumentCorpus> {
+  const corpus = new DocumentCorpus();
+  for (const [name, text] of Object.entries(files)) {
+    await corpus.addFile(textFile(name, text));
+  }
+  return corpus;
+}
+
+describe('DocumentCorpus', () => {
+  it('ranks chunks with BM25, weighting rare terms above frequent ones', async () => {
+    const corpus = await corpusWith({
+      'solar.txt': 'Solar panels turn sunlight into power. Solar farms keep adding solar capacity every year.',
+      'wind.txt': 'Wind turbines turn moving air into power on land and offshore.',
+      'storage.txt': 'Solar output peaks at noon, so batteries store the surplus for the evening.'
+    });
+
+    expect(corpus.search('solar').map(h => h.chunk.fileName)).toEqual(['solar.txt', 'storage.txt']);
+    // "batteries" occurs in one document only, so it outweighs repeated "solar"
+    expect(corpus.search('solar batteries').map(h => h.chunk.fileName)).toEqual(['storage.txt', 'solar.txt']);
+    expect(corpus.search('power').map(h => h.chunk.fileName).sort()).toEqual(['solar.txt', 'wind.txt']);
+    expect(corpus.search('geothermal')).toEqual([]);
+  });
+
+  it('returns at most `limit` hits with descending scores', async () => {
+    const corpus = await corpusWith(Object.fromEntries(
+      [1, 2, 3, 4].map(n => [`note-${n}.txt`, `Grid note ${n}: ${'grid '.repeat(n)}upgrades.`])
+    ));
+
+    const hits = corpus.search('grid', 2);
+
+    expect(hits).toHaveLength(2);
+    expect(hits[0].score).toBeGreaterThanOrEqual(hits[1].score);
+  });
+
+  it('splits long documents into overlapping chunks', async () => {
+    const sentences = Array.from({ length: 60 }, (_, i) => `Sentence ${i} is about topic${i} in detail.`).join(' ');
+    const corpus = new DocumentCorpus();
+
+    const document = await corpus.addFile(textFile('long.md', sentences));
+
+    expect(document).toMatchObject({ fileName: 'long.md', type: 'markdown' });
+    expect(document.chunkCount).toBeGreaterThan(2);
+    const [hit] = corpus.search('topic59');
+    expect(hit.chunk.text).toContain('Sentence 59 is about topic59');
+    expect(hit.chunk.text.length).toBeLessThanOrEqual(1000);
+  });
+
+  it('drops removed documents from the index', async () => {
+    const corpus = await corpusWith({ 'solar.txt': 'Solar capacity grew.', 'wind.txt': 'Wind capacity grew.' });
+    const [solar] = corpus.getDocuments();
+
+    corpus.removeDocument(solar.id);
+
+    expect(corpus.search('capacity').map(h => h.chunk.fileName)).toEqual(['wind.txt']);
+    expect(corpus.search('solar')).toEqual([]);
+  });
+
+  it('rejects unsupported and empty files', async () => {
+    const corpus = new DocumentCorpus();
+
+    await expect(corpus.addFile(textFile('sheet.xlsx', 'data'))).rejects.toThrow('Unsupported file type: sheet.xlsx');
+    await expect(corpus.addFile(textFile('empty.txt', '  '))).rejects.toThrow('No text could be extracted from empty.txt');
+    expect(corpus.isEmpty()).toBe(true);
+  });
+
+  it('turns hits into search results that point at the document', async () => {
+    const corpus = await corpusWith({ 'notes.txt': 'Heat pumps cut heating costs.' });
+
+    const result = hitToSearchResult(corpus.search('heat pumps')[0]);
+
+    expect(result).toMatchObject({ url: '', title: 'notes.txt', content: 'Heat pumps cut heating costs.' });
+    expect(result.document).toMatchObject({ fileName: 'notes.txt', page: undefined });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Local document corpus.
+ * Files dropped into the UI are parsed and chunked in the browser and indexed
+ * with BM25, so research steps can search internal documents alongside or
+ * instead of the web. Documents live in memory for the current tab only.
+ */
+import { GroundingChunk } from "../types";
+import { TavilySearchResult } from "./ISearchProvider";
+import { chunkText, tokenize } from "./pageReader";
+
+export interface CorpusDocument {
+  id: string;
+  fileName: string;
+  type: 'pdf' | 'markdown' | 'text';
+  pageCount?: number;
+  chunkCount: number;
+  size: number;
+  addedAt: number;
+}
+
+export interface CorpusChunk {
+  id: string;
+  documentId: string;
+  fileName: string;
+  page?: number;
+  text: string;
+}
+
+export interface CorpusHit {
+  chunk: CorpusChunk;
+  score: number;
+}
+
+interface IndexedChunk extends CorpusChunk {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export const SUPPORTED_EXTENSIONS = ['.pdf', '.md', '.markdown', '.txt', '.text'];
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 150;
+const BM25_K1 = 1.5;
+const BM25_B = 0.75;
+
+/**
+ * Extracts text per page from a PDF. pdf.js is loaded on demand so it only
+ * weighs on sessions that actually use PDFs.
+ */
+async function parsePdf(file: File): Promise<string[]> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map((item: any) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .trim()
+    );
+  }
+  await pdf.destroy();
+  return pages;
+}
+
+function detectType(fileName: string): CorpusDocument['type'] | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.pdf')) return 'pdf';
+  if (lower.endsWith('.md') || lower.endsWith('.markdown')) return 'markdown';
+  if (lower.endsWith('.txt') || lower.endsWith('.text')) return 'text';
+  return null;
+}
+
+export class DocumentCorpus {
+  private documents = new Map<string, CorpusDocument>();
+  private chunks: IndexedChunk[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private listeners = new Set<(documents: CorpusDocument[]) => void>();
+
+  /**
+   * Parses, chunks and indexes a file. Throws for unsupported formats.
+   */
+  async addFile(file: File): Promise<CorpusDocument> {
+    const type = detectType(file.name);
+    if (!type) {
+      throw new Error(`Unsupported file type: ${file.name}. Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+    }
+
+    const pages = type === 'pdf' ? await parsePdf(file) : [await file.text()];
+    const document: CorpusDocument = {
+      id: `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      fileName: file.name,
+      type,
+      pageCount: type === 'pdf' ? pages.length : undefined,
+      chunkCount: 0,
+      size: file.size,
+      addedAt: Date.now()
+    };
+
+    const newChunks: CorpusChunk[] = [];
+    pages.forEach((pageText, pageIndex) => {
+      chunkText(pageText, CHUNK_SIZE, CHUNK_OVERLAP).forEach((text, chunkIndex) => {
+        newChunks.push({
+          id: `${document.id}-${pageIndex}-${chunkIndex}`,
+          documentId: document.id,
+          fileName: file.name,
+          page: type === 'pdf' ? pageIndex + 1 : undefined,
+          text
+        });
+      });
+    });
+
+    if (newChunks.length === 0) {
+      throw new Error(`No text could be extracted from ${file.name}`);
+    }
+
+    document.chunkCount = newChunks.length;
+    this.documents.set(document.id, document);
+    newChunks.forEach(chunk => this.indexChunk(chunk));
+    this.notify();
+    return document;
+  }
+
+  removeDocument(documentId: string): void {
+    if (!this.documents.delete(documentId)) return;
+    const removed = this.chunks.filter(c => c.documentId === documentId);
+    this.chunks = this.chunks.filter(c => c.documentId !== documentId);
+    removed.forEach(chunk => {
+      chunk.termFrequencies.forEach((_, term) => {
+        const df = (this.documentFrequencies.get(term) || 1) - 1;
+        if (df > 0) this.documentFrequencies.set(term, df);
+        else this.documentFrequencies.delete(term);
+      });
+    });
+    this.notify();
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.chunks = [];
+    this.documentFrequencies.clear();
+    this.notify();
+  }
+
+  getDocuments(): CorpusDocument[] {
+    return Array.from(this.documents.values());
+  }
+
+  isEmpty(): boolean {
+    return this.chunks.length === 0;
+  }
+
+  /**
+   * Subscribes to changes of the document list. Returns an unsubscribe function.
+   */
+  subscribe(listener: (documents: CorpusDocument[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Ranks chunks against the query with BM25 and returns the top `limit` hits.
+   */
+  search(query: string, limit: number = 5): CorpusHit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.chunks.length === 0) return [];
+
+    const total = this.chunks.length;
+    const averageLength = this.chunks.reduce((sum, c) => sum + c.length, 0) / total;
+
+    return this.chunks
+      .map(chunk => {
+        let score = 0;
+        terms.forEach(term => {
+          const tf = chunk.termFrequencies.get(term);
+          if (!tf) return;
+          const df = this.documentFrequencies.get(term) || 0;
+          const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+          score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength));
+        });
+        return { chunk, score };
+      })
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => ({
+        chunk: { id: chunk.id, documentId: chunk.documentId, fileName: chunk.fileName, page: chunk.page, text: chunk.text },
+        score
+      }));
+  }
+
+  private indexChunk(chunk: CorpusChunk): void {
+    const tokens = tokenize(chunk.text);
+    const termFrequencies = new Map<string, number>();
+    tokens.forEach(t => termFrequencies.set(t, (termFrequencies.get(t) || 0) + 1));
+    termFrequencies.forEach((_, term) => {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    });
+    this.chunks.push({ ...chunk, termFrequencies, length: tokens.length });
+  }
+
+  private notify(): void {
+    const documents = this.getDocuments();
+    this.listeners.forEach(listener => listener(documents));
+  }
+}
+
+/**
+ * Source pointing at the file and page a chunk came from.
+ */
+export function chunkToSource(chunk: CorpusChunk): GroundingChunk {
+  return {
+    document: {
+      documentId: chunk.documentId,
+      fileName: chunk.fileName,
+      page: chunk.page
+    }
+  };
+}
+
+/**
+ * Converts a corpus hit into the search result shape used in step prompts.
+ */
+export function hitToSearchResult(hit: CorpusHit): TavilySearchResult {
+  const { chunk } = hit;
+  return {
+    url: '',
+    title: chunk.page ? `${chunk.fileName} (page ${chunk.page})` : chunk.fileName,
+    content: chunk.text,
+    readerContent: chunk.text,
+    document: chunkToSource(chunk).document
+  };
+}
+
+export const corpus = new DocumentCorpus();
@@ -0,0 +1,179 @@
+/**
+ * Source quality.
+ * Scores each source by the category of its domain, how recent it is and how
+ * many research steps relied on it.
+ */
+import { GroundingChunk, ResearchStep, SourceCategory, SourceCredibility } from "../types";
+import { sourceKey } from "./sources";
+import { matchesDomain, sourceDomain } from "./domains";
+
+const CATEGORY_SCORES: Record<SourceCategory, number> = {
+  academic: 90,
+  government: 85,
+  document: 80,
+  reference: 70,
+  news: 65,
+  corporate: 50,
+  unknown: 45,
+  blog: 35,
+  social: 25
+};
+
+export const CATEGORY_LABELS: Record<SourceCategory, string> = {
+  academic: 'Academic',
+  government: 'Government',
+  document: 'Local document',
+  reference: 'Reference',
+  news: 'News',
+  corporate: 'Corporate',
+  unknown: 'Unrated',
+  blog: 'Blog',
+  social: 'Social / forum'
+};
+
+const KNOWN_DOMAINS: Record<string, SourceCategory> = {
+  'arxiv.org': 'academic',
+  'nature.com': 'academic',
+  'science.org': 'academic',
+  'sciencedirect.com': 'academic',
+  'springer.com': 'academic',
+  'link.springer.com': 'academic',
+  'wiley.com': 'academic',
+  'ieee.org': 'academic',
+  'acm.org': 'academic',
+  'jstor.org': 'academic',
+  'ncbi.nlm.nih.gov': 'academic',
+  'pubmed.ncbi.nlm.nih.gov': 'academic',
+  'thelancet.com': 'academic',
+  'nejm.org': 'academic',
+  'bmj.com': 'academic',
+  'plos.org': 'academic',
+  'ssrn.com': 'academic',
+  'semanticscholar.org': 'academic',
+  'who.int': 'government',
+  'europa.eu': 'government',
+  'un.org': 'government',
+  'oecd.org': 'government',
+  'worldbank.org': 'government',
+  'imf.org': 'government',
+  'wikipedia.org': 'reference',
+  'britannica.com': 'reference',
+  'statista.com': 'reference',
+  'ourworldindata.org': 'reference',
+  'reuters.com': 'news',
+  'apnews.com': 'news',
+  'bbc.com': 'news',
+  'bbc.co.uk': 'news',
+  'nytimes.com': 'news',
+  'theguardian.com': 'news',
+  'washingtonpost.com': 'news',
+  'wsj.com': 'news',
+  'ft.com': 'news',
+  'economist.com': 'news',
+  'bloomberg.com': 'news',
+  'npr.org': 'news',
+  'cnn.com': 'news',
+  'techcrunch.com': 'news',
+  'theverge.com': 'news',
+  'wired.com': 'news',
+  'arstechnica.com': 'news',
+  'medium.com': 'blog',
+  'substack.com': 'blog',
+  'wordpress.com': 'blog',
+  'blogspot.com': 'blog',
+  'dev.to': 'blog',
+  'reddit.com': 'social',
+  'quora.com': 'social',
+  'x.com': 'social',
+  'twitter.com': 'social',
+  'facebook.com': 'social',
+  'linkedin.com': 'social',
+  'youtube.com': 'social',
+  'tiktok.com': 'social',
+  'stackexchange.com': 'social',
+  'stackoverflow.com': 'social'
+};
+
+/**
+ * Category of a domain, from the known-domain list or its top-level domain.
+ */
+export function classifyDomain(domain: string): SourceCategory {
+  const known = Object.keys(KNOWN_DOMAINS).find(pattern => matchesDomain(domain, pattern));
+  if (known) return KNOWN_DOMAINS[known];
+
+  if (/\.(edu|ac\.[a-z]{2}|edu\.[a-z]{2})$/.test(domain)) return 'academic';
+  if (/\.(gov|mil|int|gov\.[a-z]{2}|gouv\.[a-z]{2})$/.test(domain)) return 'government';
+  if (/^blogs?\./.test(domain)) return 'blog';
+  if (/\.(org)$/.test(domain)) return 'reference';
+  if (/\.(com|io|co|net|ai)$/.test(domain)) return 'corporate';
+  return 'unknown';
+}
+
+/**
+ * Publication age in years from the backend date or, failing that, a
+ * `/YYYY/MM/` segment in the URL.
+ */
+function getAgeYears(source: GroundingChunk, now: number): number | undefined {
+  let time = source.web?.publishedDate ? Date.parse(source.web.publishedDate) : NaN;
+  if (isNaN(time) && source.web?.uri) {
+    const match = source.web.uri.match(/\/((?:19|20)\d{2})\/(0[1-9]|1[0-2])\//);
+    if (match) time = Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1);
+  }
+  if (isNaN(time)) return undefined;
+  return Math.max((now - time) / (365.25 * 24 * 60 * 60 * 1000), 0);
+}
+
+function recencyAdjustment(ageYears?: number): number {
+  if (ageYears === undefined) return 0;
+  if (ageYears < 1) return 5;
+  if (ageYears < 3) return 0;
+  if (ageYears < 6) return -5;
+  return -10;
+}
+
+/**
+ * Scores one source. `citedBySteps` is the number of research steps whose
+ * sources include the same source or domain; a domain several steps keep
+ * coming back to scores slightly higher. This measures reuse, not whether
+ * the steps' findings agree.
+ */
+export function scoreSource(source: GroundingChunk, citedBySteps: number, now: number = Date.now()): SourceCredibility {
+  const category: SourceCategory = source.document
+    ? 'document'
+    : classifyDomain(sourceDomain(source));
+  const ageYears = source.document ? undefined : getAgeYears(source, now);
+  const reuse = Math.min(Math.max(citedBySteps - 1, 0), 3) * 5;
+  const score = Math.min(Math.max(CATEGORY_SCORES[category] + recencyAdjustment(ageYears) + reuse, 0), 100);
+
+  return {
+    score: Math.round(score),
+    category,
+    ageYears: ageYears === undefined ? undefined : Math.round(ageYears * 10) / 10,
+    citedBySteps
+  };
+}
+
+/**
+ * Attaches a credibility score to every source of the report.
+ */
+export function scoreSources(sources: GroundingChunk[], steps: ResearchStep[], now: number = Date.now()): GroundingChunk[] {
+  const groupOf = (s: GroundingChunk) => s.document ? sourceKey(s) : sourceDomain(s) || sourceKey(s);
+  const stepsPerGroup = new Map<string, number>();
+  steps.forEach(step => {
+    new Set((step.sources || []).map(groupOf)).forEach(group => {
+      stepsPerGroup.set(group, (stepsPerGroup.get(group) || 0) + 1);
+    });
+  });
+
+  return sources.map(source => ({
+    ...source,
+    credibility: scoreSource(source, stepsPerGroup.get(groupOf(source)) || 1, now)
+  }));
+}
+
+/**
+ * Short description for badges and exports, e.g. "82/100, Academic".
+ */
+export function formatCredibility(credibility: SourceCredibility): string {
+  return `${credibility.score}/100, ${CATEGORY_LABELS[credibility.category]}`;
+}
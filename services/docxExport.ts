@@ -0,0 +1,193 @@
+/**
+ * DOCX export of a report, generated in the browser with the `docx` package.
+ * Mirrors the PDF layout: title page, summary, analysis, step appendix and a
+ * bookmarked bibliography that citations link to.
+ */
+import type * as Docx from "docx";
+import { DocBlock, DocInline, ReportDocument, safeUrl } from "./reportDocument";
+
+type DocxModule = typeof Docx;
+type Child = Docx.Paragraph | Docx.Table;
+type HeadingLevel = (typeof Docx.HeadingLevel)[keyof typeof Docx.HeadingLevel];
+
+const LINK_COLOR = '2563EB';
+const MUTED_COLOR = '64748B';
+const ORDERED_LIST = 'ordered-list';
+
+const bookmarkId = (n: number) => `source_${n}`;
+
+function createWriter(docx: DocxModule) {
+  const { Paragraph, TextRun, ExternalHyperlink, InternalHyperlink, Table, TableRow, TableCell, WidthType, ShadingType, HeadingLevel } = docx;
+  const headingLevels = [
+    HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6
+  ];
+  // Each ordered list restarts its numbering
+  let listInstance = 0;
+
+  const runs = (content: DocInline[], style: { size?: number; color?: string } = {}): Docx.ParagraphChild[] =>
+    content.map(run => {
+      if (run.citation) {
+        return new InternalHyperlink({
+          anchor: bookmarkId(run.citation),
+          children: [new TextRun({ text: run.text, color: LINK_COLOR, superScript: true })]
+        });
+      }
+      const lineBreak = run.text === '\n';
+      const href = safeUrl(run.href);
+      const text = new TextRun({
+        text: lineBreak ? '' : run.text,
+        bold: run.bold,
+        italics: run.italic,
+        font: run.code ? 'Consolas' : undefined,
+        size: style.size,
+        color: href ? LINK_COLOR : style.color,
+        underline: href ? {} : undefined,
+        break: lineBreak ? 1 : undefined
+      });
+      return href ? new ExternalHyperlink({ link: href, children: [text] }) : text;
+    });
+
+  const blocks = (items: DocBlock[], level = 0, indent = 0): Child[] =>
+    items.flatMap((block): Child[] => {
+      switch (block.type) {
+        case 'heading':
+          return [new Paragraph({ heading: headingLevels[block.level - 1], children: runs(block.content) })];
+        case 'paragraph':
+          return [new Paragraph({ children: runs(block.content), indent: indent ? { left: indent } : undefined })];
+        case 'list': {
+          const instance = ++listInstance;
+          return block.items.flatMap(item => item.flatMap((child, i): Child[] => {
+            // The first paragraph of an item carries the bullet or number
+            if (i === 0 && child.type === 'paragraph') {
+              return [new Paragraph({
+                children: runs(child.content),
+                ...(block.ordered
+                  ? { numbering: { reference: ORDERED_LIST, level, instance } }
+                  : { bullet: { level } })
+              })];
+            }
+            return blocks([child], child.type === 'list' ? level + 1 : level, 720 * (level + 1));
+          }));
+        }
+        case 'code':
+          return block.text.split('\n').map(line => new Paragraph({
+            shading: { type: ShadingType.CLEAR, fill: 'F1F5F9', color: 'auto' },
+            spacing: { before: 0, after: 0 },
+            indent: indent ? { left: indent } : undefined,
+            children: [new TextRun({ text: line || ' ', font: 'Consolas', size: 18 })]
+          }));
+        case 'table': {
+          const row = (cells: DocInline[][], header: boolean) => new TableRow({
+            tableHeader: header,
+            children: cells.map(cell => new TableCell({
+              shading: header ? { type: ShadingType.CLEAR, fill: 'E2E8F0', color: 'auto' } : undefined,
+              children: [new Paragraph({ children: runs(header ? cell.map(r => ({ ...r, bold: true })) : cell, { size: 18 }) })]
+            }))
+          });
+          return [
+            new Table({
+              width: { size: 100, type: WidthType.PERCENTAGE },
+              rows: [row(block.header, true), ...block.rows.map(cells => row(cells, false))]
+            }),
+            new Paragraph({})
+          ];
+        }
+        case 'quote':
+          return blocks(block.blocks, level, indent + 720);
+        case 'rule':
+          return [new Paragraph({ border: { bottom: { style: docx.BorderStyle.SINGLE, size: 6, color: 'CBD5E1', space: 1 } } })];
+      }
+    });
+
+  return { runs, blocks };
+}
+
+/**
+ * Renders the report as a DOCX file. The `docx` package is loaded on first use.
+ */
+export async function createDocxReport(report: ReportDocument): Promise<Blob> {
+  const docx = await import('docx');
+  const { Document, Packer, Paragraph, TextRun, Bookmark, HeadingLevel, AlignmentType, LevelFormat, Footer, PageNumber } = docx;
+  const { runs, blocks } = createWriter(docx);
+
+  const heading = (text: string, level: HeadingLevel = HeadingLevel.HEADING_1, pageBreakBefore = false) =>
+    new Paragraph({ heading: level, pageBreakBefore, children: [new TextRun(text)] });
+
+  const titlePage: Child[] = [
+    new Paragraph({ spacing: { before: 2400 }, heading: HeadingLevel.TITLE, children: [new TextRun('Research Report')] }),
+    new Paragraph({ spacing: { after: 600 }, children: [new TextRun({ text: report.query, size: 32 })] }),
+    ...[
+      `Provider: ${report.provider}`,
+      `Generated: ${report.date}`,
+      `${report.appendix.length} research steps, ${report.bibliography.length} sources`
+    ].map(line => new Paragraph({ children: [new TextRun({ text: line, color: MUTED_COLOR })] }))
+  ];
+
+  const appendix: Child[] = report.appendix.flatMap((step, i) => [
+    heading(`Step ${i + 1}: ${step.query}`, HeadingLevel.HEADING_3),
+    new Paragraph({
+      children: runs([
+        { text: `Status: ${step.status}${step.sources.length > 0 ? ' · Sources: ' : ''}` },
+        ...step.sources.map(n => ({ text: `[${n}]`, citation: n }))
+      ], { size: 18, color: MUTED_COLOR })
+    }),
+    ...blocks(step.blocks)
+  ]);
+
+  const bibliography: Child[] = report.bibliography.length === 0 ? [] : [
+    heading('Bibliography', HeadingLevel.HEADING_1, true),
+    ...report.bibliography.map(entry => new Paragraph({
+      children: [
+        new Bookmark({ id: bookmarkId(entry.index), children: [new TextRun({ text: `[${entry.index}] `, bold: true })] }),
+        ...runs([
+          { text: entry.label, href: entry.url },
+          ...(entry.note ? [{ text: ` (${entry.note})` }] : []),
+          ...(entry.url && entry.url !== entry.label ? [{ text: '\n' }, { text: entry.url, href: entry.url }] : [])
+        ])
+      ]
+    }))
+  ];
+
+  const doc = new Document({
+    title: `Research Report: ${report.query}`,
+    creator: 'InsightFlow AI',
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: [0, 1, 2, 3].map(level => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+        }))
+      }]
+    },
+    sections: [
+      { children: titlePage },
+      {
+        footers: {
+          default: new Footer({
+            children: [new Paragraph({
+              alignment: AlignmentType.RIGHT,
+              children: [new TextRun({ children: ['InsightFlow AI · ', PageNumber.CURRENT], size: 16, color: MUTED_COLOR })]
+            })]
+          })
+        },
+        children: [
+          heading('Executive Summary'),
+          ...blocks(report.summary),
+          heading('Detailed Analysis'),
+          ...blocks(report.body),
+          ...blocks(report.verification),
+          heading('Appendix: Research Steps', HeadingLevel.HEADING_1, true),
+          ...appendix,
+          ...bibliography
+        ]
+      }
+    ]
+  });
+
+  return Packer.toBlob(doc);
+}
@@ -0,0 +1,97 @@
+/**
+ * Domains of sources and the user's domain allow and block lists.
+ * Search backends filter their results with the lists before anything reaches
+ * the model; Gemini grounding is filtered when its answer arrives, and
+ * `mergeSources` applies the lists again to every source of a report.
+ */
+import { GroundingChunk } from "../types";
+
+export interface DomainFilter {
+  allowList: string[];
+  blockList: string[];
+}
+
+/**
+ * Lowercased hostname without `www.`, or '' if the URL cannot be parsed.
+ */
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Domain a web source comes from. Gemini grounding links point at a Google
+ * redirect and carry the real domain as their title.
+ */
+export function sourceDomain(source: GroundingChunk): string {
+  const domain = getDomain(source.web?.uri || '');
+  const title = (source.web?.title || '').toLowerCase().replace(/^www\./, '');
+  if (domain.endsWith('vertexaisearch.cloud.google.com') && /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(title)) {
+    return title;
+  }
+  return domain;
+}
+
+/**
+ * True if `domain` is `pattern` or one of its subdomains.
+ */
+export function matchesDomain(domain: string, pattern: string): boolean {
+  return domain === pattern || domain.endsWith(`.${pattern}`);
+}
+
+/**
+ * Parses a user-maintained domain list (newline or comma separated). Accepts
+ * bare domains as well as pasted URLs.
+ */
+export function parseDomainList(list?: string): string[] {
+  if (!list) return [];
+  return list
+    .split(/[\n,]+/)
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map(entry => getDomain(entry.includes('://') ? entry : `https://${entry}`) || entry);
+}
+
+/**
+ * Applies the allow and block lists: blocked domains are always dropped, and
+ * a non-empty allow list keeps only the listed domains.
+ */
+export function isDomainAllowed(url: string, allowList: string[], blockList: string[]): boolean {
+  const domain = getDomain(url);
+  if (!domain) return allowList.length === 0;
+  if (blockList.some(pattern => matchesDomain(domain, pattern))) return false;
+  return allowList.length === 0 || allowList.some(pattern => matchesDomain(domain, pattern));
+}
+
+/**
+ * Allow and block lists from the saved settings.
+ */
+export function getDomainFilter(): DomainFilter {
+  try {
+    const config = localStorage.getItem('insightflow_provider_config');
+    if (config) {
+      const parsed = JSON.parse(config);
+      return {
+        allowList: parseDomainList(parsed.domainAllowList),
+        blockList: parseDomainList(parsed.domainBlockList)
+      };
+    }
+  } catch (e) {
+    console.error('Error loading domain lists:', e);
+  }
+  return { allowList: [], blockList: [] };
+}
+
+/**
+ * Applies the lists to a report source. Local documents have no domain and
+ * are always kept; web sources are judged by `sourceDomain`, so Gemini
+ * redirect links count under the domain they point at.
+ */
+export function isSourceAllowed(source: GroundingChunk, filter: DomainFilter): boolean {
+  if (source.document) return true;
+  const domain = sourceDomain(source);
+  return isDomainAllowed(domain ? `https://${domain}` : '', filter.allowList, filter.blockList);
+}
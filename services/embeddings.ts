@@ -0,0 +1,140 @@
+/**
+ * Text embedding client used by the reranker.
+ * Supports Ollama (`/api/embeddings`), Gemini embeddings and any
+ * OpenAI-compatible `/embeddings` endpoint.
+ */
+import { GoogleGenAI } from "@google/genai";
+import { EmbeddingProviderType } from "../types";
+import { HttpError } from "./retry";
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderType;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderType, string> = {
+  ollama: 'nomic-embed-text',
+  gemini: 'gemini-embedding-001',
+  openai: 'text-embedding-3-small'
+};
+
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Ollama's `/api/embeddings` takes one prompt per request.
+ */
+async function embedWithOllama(texts: string[], settings: EmbeddingSettings, signal?: AbortSignal): Promise<number[][]> {
+  const baseUrl = (settings.baseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || DEFAULT_EMBEDDING_MODELS.ollama;
+
+  return Promise.all(texts.map(async (text) => {
+    const response = await fetch(`${baseUrl}/api/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, prompt: text }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new HttpError(response.status, `Ollama embeddings error: ${error}`);
+    }
+
+    const data = await response.json();
+    return data.embedding || [];
+  }));
+}
+
+async function embedWithGemini(texts: string[], settings: EmbeddingSettings, signal?: AbortSignal): Promise<number[][]> {
+  if (!settings.apiKey) {
+    throw new Error('Gemini embeddings require an API key');
+  }
+
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+  const response = await ai.models.embedContent({
+    model: settings.model || DEFAULT_EMBEDDING_MODELS.gemini,
+    contents: texts,
+    config: {
+      taskType: 'SEMANTIC_SIMILARITY',
+      abortSignal: signal
+    }
+  });
+
+  return (response.embeddings || []).map(e => e.values || []);
+}
+
+async function embedWithOpenAI(texts: string[], settings: EmbeddingSettings, signal?: AbortSignal): Promise<number[][]> {
+  const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl}/embeddings`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: settings.model || DEFAULT_EMBEDDING_MODELS.openai,
+      input: texts
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError(response.status, `Embeddings API error: ${error}`);
+  }
+
+  const data = await response.json();
+  // The spec does not guarantee order, but every item carries its index
+  return (data.data || [])
+    .sort((a: any, b: any) => a.index - b.index)
+    .map((d: any) => d.embedding || []);
+}
+
+/**
+ * Embeds each text with the configured provider. Returns one vector per input, in order.
+ */
+export async function embedTexts(texts: string[], settings: EmbeddingSettings, signal?: AbortSignal): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  let vectors: number[][];
+  switch (settings.provider) {
+    case 'ollama':
+      vectors = await embedWithOllama(texts, settings, signal);
+      break;
+    case 'gemini':
+      vectors = await embedWithGemini(texts, settings, signal);
+      break;
+    case 'openai':
+      vectors = await embedWithOpenAI(texts, settings, signal);
+      break;
+    default:
+      throw new Error(`Unknown embedding provider: ${settings.provider}`);
+  }
+
+  if (vectors.length !== texts.length || vectors.some(v => v.length === 0)) {
+    throw new Error(`Embedding provider returned ${vectors.length} vectors for ${texts.length} texts`);
+  }
+  return vectors;
+}
+
+/**
+ * Cosine similarity of two vectors; 0 if either is a zero vector.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -3,20 +3,23 @@
  * Creates the appropriate AI service based on environment configuration.
  * 
  * Configuration (via .env.local):
- * - LLM_PROVIDER: "gemini" | "minimax" | "ollama"
+ * - LLM_PROVIDER: "gemini" | "minimax" | "ollama" | "openai" | "anthropic"
  * 
  * Provider-specific env vars:
  * - Gemini: API_KEY (already set)
  * - MiniMax: MINIMAX_API_KEY, MINIMAX_GROUP_ID, MINIMAX_MODEL
  * - Ollama: OLLAMA_BASE_URL, OLLAMA_MODEL
+ * - OpenAI-compatible: configured in the settings panel (base URL, API key, model)
+ * - Anthropic: configured in the settings panel (API key, base URL, model)
  * - Search (for MiniMax/Ollama): TAVILY_API_KEY
  */
+import { ProviderType } from "../types";
 import { IAIService } from "./IAIService";
 import { gemini } from "./geminiService";
 import { minimax } from "./minimaxService";
 import { ollama } from "./ollamaService";
-
-export type ProviderType = "gemini" | "minimax" | "ollama";
+import { openai } from "./openaiService";
+import { anthropic } from "./anthropicService";
 
 class AIServiceFactory {
   private static instance: IAIService | null = null;
@@ -27,7 +30,7 @@ class AIServiceFactory {
    */
   static getProviderType(): ProviderType {
     const provider = process.env.LLM_PROVIDER?.toLowerCase();
-    if (provider === "minimax" || provider === "ollama") {
+    if (provider === "minimax" || provider === "ollama" || provider === "openai" || provider === "anthropic") {
       return provider;
     }
     return "gemini"; // Default to Gemini
@@ -62,6 +65,14 @@ class AIServiceFactory {
         this.instance = ollama;
         break;
 
+      case "openai":
+        this.instance = openai;
+        break;
+
+      case "anthropic":
+        this.instance = anthropic;
+        break;
+
       case "gemini":
       default:
         this.instance = gemini;
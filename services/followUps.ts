@@ -0,0 +1,41 @@
+/**
+ * Follow-up question generation for recursive deep research.
+ * After a step completes, the model looks for gaps in its findings and
+ * proposes sub-questions that become child steps.
+ */
+import { IAIService } from "./IAIService";
+import { ResearchStep } from "../types";
+import { isAbortError } from "./abort";
+import { renderPrompt } from "./prompts";
+
+/**
+ * Asks the model for up to `maxQuestions` follow-up questions that would fill
+ * gaps in a step's findings. Returns an empty list if the model finds none or
+ * its answer cannot be parsed.
+ */
+export async function generateFollowUpQuestions(
+  service: IAIService,
+  originalQuery: string,
+  step: ResearchStep,
+  maxQuestions: number,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const systemPrompt = renderPrompt('followups.system', { maxQuestions: String(maxQuestions) });
+  const userPrompt = renderPrompt('followups.user', { query: originalQuery, stepQuery: step.query, findings: step.result || '' });
+
+  try {
+    const response = await service.generateText(systemPrompt, userPrompt, { temperature: 0.4, json: true, signal });
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
+    const questions = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+    if (!Array.isArray(questions)) return [];
+
+    return questions
+      .map((q: any) => (typeof q === 'string' ? q : q?.query || '').trim())
+      .filter((q: string) => q && q.toLowerCase() !== step.query.toLowerCase())
+      .slice(0, maxQuestions);
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    console.error("Failed to generate follow-up questions", e);
+    return [];
+  }
+}
@@ -1,31 +1,80 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { ResearchStep, GroundingChunk } from "../types";
+import { IAIService, GenerateTextOptions, StepResult } from "./IAIService";
+import { splitSynthesis } from "./streaming";
+import { searchService } from "./searchService";
+import { formatResearchData } from "./citations";
+import { getActiveTemplate, limitPlan } from "./templates";
+import { renderPrompt } from "./prompts";
+import { padPlan } from "./planReview";
+import { getApiKey } from "./providerKeys";
+import { DomainFilter, getDomainFilter, isSourceAllowed } from "./domains";
 
-export class GeminiService {
+/**
+ * Google Search grounding cannot be limited to the domain lists through the
+ * Gemini API, so they are applied to the grounding metadata of a response:
+ * chunks from blocked domains are dropped, and so is every passage of the
+ * answer grounded on one of them.
+ */
+function filterGrounding(metadata: any, filter: DomainFilter): { sources: GroundingChunk[]; blockedSegments: string[] } {
+  const chunks: GroundingChunk[] = (metadata?.groundingChunks || []).map((s: any) => ({
+    web: {
+      uri: s.web?.uri || s.uri || "",
+      title: s.web?.title || s.title || ""
+    }
+  }));
+  const allowed = chunks.map(chunk => isSourceAllowed(chunk, filter));
+  const blockedSegments = (metadata?.groundingSupports || [])
+    .filter((support: any) => (support.groundingChunkIndices || []).some((i: number) => allowed[i] === false))
+    .map((support: any) => support.segment?.text || '')
+    .filter(Boolean);
+  return { sources: chunks.filter((_, i) => allowed[i]), blockedSegments };
+}
+
+/**
+ * Cuts the blocked passages out of the step findings and counts how many
+ * were found.
+ */
+function removeSegments(text: string, segments: string[]): { result: string; blockedPassages: number } {
+  let result = text;
+  let blockedPassages = 0;
+  for (const segment of new Set(segments)) {
+    if (!result.includes(segment)) continue;
+    result = result.split(segment).join('');
+    blockedPassages++;
+  }
+  if (blockedPassages === 0) return { result, blockedPassages };
+  return {
+    result: result.replace(/[ \t]{2,}/g, ' ').replace(/\n{3,}/g, '\n\n').trim(),
+    blockedPassages
+  };
+}
+
+export class GeminiService implements IAIService {
   private ai: GoogleGenAI | null = null;
   private apiKey: string = '';
 
   private getAI(): GoogleGenAI {
-    // Use user-provided API key from localStorage if available
-    if (!this.apiKey) {
-      try {
-        const config = localStorage.getItem('insightflow_provider_config');
-        if (config) {
-          const parsed = JSON.parse(config);
-          this.apiKey = parsed.apiKey || '';
-        }
-      } catch (e) {
-        console.error('Error loading config:', e);
+    // Use user-provided API key from localStorage; read it on every call so a
+    // key changed in settings takes effect without a reload
+    let apiKey = '';
+    try {
+      const config = localStorage.getItem('insightflow_provider_config');
+      if (config) {
+        apiKey = getApiKey(JSON.parse(config), 'gemini');
       }
+    } catch (e) {
+      console.error('Error loading config:', e);
     }
-    
-    if (!this.apiKey) {
+
+    if (!apiKey) {
       throw new Error('Please configure your Gemini API key in settings');
     }
-    
-    if (!this.ai) {
-      this.ai = new GoogleGenAI({ apiKey: this.apiKey });
+
+    if (!this.ai || apiKey !== this.apiKey) {
+      this.ai = new GoogleGenAI({ apiKey });
+      this.apiKey = apiKey;
     }
     return this.ai;
   }
@@ -35,13 +84,63 @@ export class GeminiService {
   }
 
   /**
-   * Generates a multi-step research plan for a complex query.
+   * Builds the step prompt and tools. Local document excerpts are added to the
+   * prompt when the corpus is enabled; Google Search grounding is dropped in
+   * corpus-only mode.
+   */
+  private buildStepRequest(query: string): { contents: string; tools: any[]; corpusSources: GroundingChunk[] } {
+    const mode = searchService.getCorpusMode();
+    const tools = mode === 'corpus' ? [] : [{ googleSearch: {} }];
+    const instruction = renderPrompt('step.grounded', { query });
+    if (mode === 'web') {
+      return { contents: instruction, tools, corpusSources: [] };
+    }
+
+    const { results, sources } = searchService.searchCorpus(query);
+    if (results.length === 0) {
+      return {
+        contents: mode === 'corpus' ? `${instruction}\n\nNo relevant passages were found in the local documents; say so.` : instruction,
+        tools,
+        corpusSources: []
+      };
+    }
+
+    return {
+      contents: `${instruction}\n\nUse these excerpts from the user's local documents${mode === 'corpus' ? ' as your only source' : ' alongside web search'}:\n\n${searchService.summarizeResults(query, results)}`,
+      tools,
+      corpusSources: sources
+    };
+  }
+
+  /**
+   * Free-form completion with a system instruction.
+   */
+  async generateText(systemPrompt: string, userPrompt: string, options: GenerateTextOptions = {}): Promise<string> {
+    const response = await this.getAI().models.generateContent({
+      model: 'gemini-3-pro-preview',
+      contents: userPrompt,
+      config: {
+        systemInstruction: systemPrompt,
+        temperature: options.temperature,
+        responseMimeType: options.json ? "application/json" : undefined,
+        abortSignal: options.signal
+      }
+    });
+    return response.text || "";
+  }
+
+  /**
+   * Generates a multi-step research plan for a complex query, with the active
+   * template's number of steps.
    */
-  async generateResearchPlan(userQuery: string): Promise<ResearchStep[]> {
+  async generateResearchPlan(userQuery: string, signal?: AbortSignal): Promise<ResearchStep[]> {
+    const template = getActiveTemplate();
     const response = await this.getAI().models.generateContent({
       model: 'gemini-3-pro-preview',
-      contents: `You are a research coordinator. Break down this query into 3-4 distinct research steps/sub-questions to perform a deep analysis: "${userQuery}". Return ONLY a JSON array of objects with a 'query' field.`,
+      contents: renderPrompt('plan.user', { query: userQuery }),
       config: {
+        systemInstruction: renderPrompt('plan.system'),
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.ARRAY,
@@ -56,54 +155,56 @@ export class GeminiService {
       }
     });
 
+    let steps: ResearchStep[];
     try {
       const plan = JSON.parse(response.text || "[]");
-      return plan.map((p: any, index: number) => ({
+      steps = limitPlan(plan, template).map((p: any, index: number) => ({
         id: `step-${index}`,
         query: p.query,
-        status: 'pending'
+        status: 'pending' as const
       }));
     } catch (e) {
       console.error("Failed to parse research plan", e);
-      return [{ id: 'step-0', query: userQuery, status: 'pending' }];
+      steps = [{ id: 'step-0', query: userQuery, status: 'pending' }];
     }
+    return padPlan(this, userQuery, steps, template, signal);
   }
 
   /**
    * Executes a single search step using Google Search grounding.
    */
-  async executeResearchStep(query: string): Promise<{ result: string, sources: GroundingChunk[] }> {
+  async executeResearchStep(query: string, signal?: AbortSignal): Promise<StepResult> {
+    const { contents, tools, corpusSources } = this.buildStepRequest(query);
     const response = await this.getAI().models.generateContent({
       model: 'gemini-3-pro-preview',
-      contents: `Perform a detailed search and provide facts/data for: "${query}". Be concise but thorough.`,
+      contents,
       config: {
-        tools: [{ googleSearch: {} }]
+        tools,
+        abortSignal: signal
       }
     });
 
-    const rawSources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources: GroundingChunk[] = rawSources.map((s: any) => ({
-      web: {
-        uri: s.web?.uri || s.uri || "",
-        title: s.web?.title || s.title || ""
-      }
-    }));
+    const { sources, blockedSegments } = filterGrounding(response.candidates?.[0]?.groundingMetadata, getDomainFilter());
+    const { result, blockedPassages } = removeSegments(response.text || "", blockedSegments);
     return {
-      result: response.text || "No information found.",
-      sources: sources
+      result: result || "No information found.",
+      sources: [...corpusSources, ...sources],
+      blockedPassages: blockedPassages || undefined
     };
   }
 
   /**
    * Final synthesis of all researched data.
    */
-  async synthesizeAnalysis(originalQuery: string, steps: ResearchStep[]): Promise<{ summary: string, deepDive: string }> {
-    const researchData = steps.map(s => `Query: ${s.query}\nFindings: ${s.result}`).join("\n\n---\n\n");
+  async synthesizeAnalysis(originalQuery: string, steps: ResearchStep[], signal?: AbortSignal): Promise<{ summary: string, deepDive: string }> {
+    const researchData = formatResearchData(steps);
     
     const response = await this.getAI().models.generateContent({
       model: 'gemini-3-pro-preview',
-      contents: `Original Request: ${originalQuery}\n\nBased on these research findings:\n${researchData}\n\nProvide a comprehensive "Deep Analysis" in two parts: 1. A executive summary (JSON field: summary). 2. A detailed multi-section deep dive analysis in Markdown (JSON field: deepDive).`,
+      contents: renderPrompt('synthesis.user', { query: originalQuery, findings: researchData }),
       config: {
+        systemInstruction: renderPrompt('synthesis.system'),
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -125,6 +226,75 @@ export class GeminiService {
       };
     }
   }
+
+  /**
+   * Streaming variant of executeResearchStep.
+   * Grounding metadata may arrive on any chunk, so sources are collected across the stream.
+   * Passages grounded on blocked domains are streamed, then cut from the final result.
+   */
+  async *executeResearchStepStream(query: string, signal?: AbortSignal): AsyncGenerator<string, StepResult> {
+    const { contents, tools, corpusSources } = this.buildStepRequest(query);
+    const stream = await this.getAI().models.generateContentStream({
+      model: 'gemini-3-pro-preview',
+      contents,
+      config: {
+        tools,
+        abortSignal: signal
+      }
+    });
+
+    const filter = getDomainFilter();
+    let text = "";
+    const sources: GroundingChunk[] = [...corpusSources];
+    const blockedSegments: string[] = [];
+    for await (const chunk of stream) {
+      const grounding = filterGrounding(chunk.candidates?.[0]?.groundingMetadata, filter);
+      sources.push(...grounding.sources);
+      blockedSegments.push(...grounding.blockedSegments);
+
+      if (chunk.text) {
+        text += chunk.text;
+        yield chunk.text;
+      }
+    }
+
+    const { result, blockedPassages } = removeSegments(text, blockedSegments);
+    return {
+      result: result || "No information found.",
+      sources,
+      blockedPassages: blockedPassages || undefined
+    };
+  }
+
+  /**
+   * Streaming variant of synthesizeAnalysis.
+   */
+  async *synthesizeAnalysisStream(originalQuery: string, steps: ResearchStep[], signal?: AbortSignal): AsyncGenerator<string, { summary: string, deepDive: string }> {
+    const researchData = formatResearchData(steps);
+
+    const stream = await this.getAI().models.generateContentStream({
+      model: 'gemini-3-pro-preview',
+      contents: renderPrompt('synthesis.stream.user', { query: originalQuery, findings: researchData }),
+      config: {
+        systemInstruction: renderPrompt('synthesis.stream.system'),
+        abortSignal: signal
+      }
+    });
+
+    let text = "";
+    for await (const chunk of stream) {
+      if (chunk.text) {
+        text += chunk.text;
+        yield chunk.text;
+      }
+    }
+
+    const { summary, deepDive } = splitSynthesis(text);
+    return {
+      summary: deepDive ? summary : "Analysis complete.",
+      deepDive: deepDive || summary || "Analysis could not be formatted correctly."
+    };
+  }
 }
 
 export const gemini = new GeminiService();
@@ -0,0 +1,136 @@
+/**
+ * Research history.
+ * Completed reports are kept in IndexedDB (they are too large for
+ * localStorage) so they survive "New Search" and page reloads.
+ */
+import { HistoryEntry } from "../types";
+
+const DB_NAME = 'insightflow';
+const DB_VERSION = 1;
+const STORE = 'reports';
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class HistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<(entries: HistoryEntry[]) => void>();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async transaction<T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, mode);
+    const result = await promisify(work(tx.objectStore(STORE)));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    return result;
+  }
+
+  /**
+   * All entries, newest first.
+   */
+  async list(): Promise<HistoryEntry[]> {
+    const entries = await this.transaction('readonly', store => store.getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(id: string): Promise<HistoryEntry | undefined> {
+    return this.transaction('readonly', store => store.get(id) as IDBRequest<HistoryEntry | undefined>);
+  }
+
+  /**
+   * Inserts or replaces an entry.
+   */
+  async save(entry: HistoryEntry): Promise<void> {
+    await this.transaction('readwrite', store => store.put(entry));
+    await this.notify();
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    const entry = await this.get(id);
+    if (!entry) return;
+    await this.save({ ...entry, title: title.trim() || entry.query, updatedAt: Date.now() });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.transaction('readwrite', store => store.delete(id));
+    await this.notify();
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction('readwrite', store => store.clear());
+    await this.notify();
+  }
+
+  /**
+   * Subscribes to changes of the stored entries. Returns an unsubscribe function.
+   */
+  subscribe(listener: (entries: HistoryEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const entries = await this.list();
+    this.listeners.forEach(listener => listener(entries));
+  }
+}
+
+/**
+ * Creates a history entry for a freshly completed run.
+ */
+export function createHistoryEntry(
+  query: string,
+  result: HistoryEntry['result'],
+  provider: HistoryEntry['provider'],
+  model: string
+): HistoryEntry {
+  const now = Date.now();
+  return {
+    id: `run-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    title: query,
+    query,
+    provider,
+    model,
+    createdAt: now,
+    updatedAt: now,
+    result
+  };
+}
+
+export const historyStore = new HistoryStore();
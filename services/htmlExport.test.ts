@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { createHtmlReport } from './htmlExport';
+import { buildReportDocument } from './reportDocument';
+import { AnalysisResult } from '../types';
+
+describe('createHtmlReport', () => {
+  it('never emits javascript: or data: links', () => {
+    const result: AnalysisResult = {
+      summary: 'Summary.',
+      deepDive: 'See [this](javascript:alert(1)), [that](data:text/html,boom) and [the source](https://a.example) [1][2].',
+      steps: [],
+      allSources: [
+        { web: { uri: 'javascript:alert(2)', title: 'Bad' } },
+        { web: { uri: 'https://b.example', title: 'Good' } }
+      ]
+    };
+
+    const html = createHtmlReport(buildReportDocument('topic', result, 'Fake'), 'light');
+
+    expect(html).not.toMatch(/href="(javascript|data):/i);
+    expect(html).toContain('href="https://a.example"');
+    expect(html).toContain('href="https://b.example"');
+  });
+});
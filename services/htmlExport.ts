@@ -0,0 +1,241 @@
+/**
+ * Single-file HTML export of a report.
+ * Styles for the light and dark themes and the theme toggle are inlined, so
+ * the file renders the same when emailed or opened from disk without network
+ * access. Research steps are collapsible sections listing their sources.
+ */
+import { BibliographyEntry, DocBlock, DocInline, ReportDocument, inlineText, safeUrl } from "./reportDocument";
+import { slugify } from "./markdown";
+
+export type HtmlTheme = 'light' | 'dark' | 'system';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Palettes follow the app's theme variables in index.css
+const DARK_VARS = `
+  --bg: #030712; --bg-card: #0f172a; --bg-muted: #1e293b;
+  --text: #f8fafc; --text-secondary: #94a3b8; --text-muted: #64748b;
+  --accent: #38bdf8; --border: rgba(148, 163, 184, 0.2);
+  --good: #4ade80; --bad: #f87171;`;
+const LIGHT_VARS = `
+  --bg: #fafbfc; --bg-card: #ffffff; --bg-muted: #f1f5f9;
+  --text: #0f172a; --text-secondary: #475569; --text-muted: #94a3b8;
+  --accent: #0284c7; --border: rgba(0, 0, 0, 0.1);
+  --good: #16a34a; --bad: #dc2626;`;
+
+const STYLES = `
+:root {${DARK_VARS} }
+:root.light {${LIGHT_VARS} }
+@media (prefers-color-scheme: light) { :root:not(.dark) {${LIGHT_VARS} } }
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); color: var(--text); font: 16px/1.7 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 48px 24px 80px; }
+header { border-bottom: 1px solid var(--border); padding-bottom: 24px; margin-bottom: 32px; position: relative; }
+header h1 { margin: 0 0 8px; font-size: 2rem; line-height: 1.25; }
+.meta { color: var(--text-secondary); font-size: 0.9rem; margin: 0; }
+.toggle { position: absolute; top: 0; right: 0; background: var(--bg-muted); color: var(--text); border: 1px solid var(--border); border-radius: 8px; padding: 6px 12px; cursor: pointer; font: inherit; font-size: 0.85rem; }
+h2, h3, h4, h5, h6 { line-height: 1.3; margin: 2em 0 0.6em; }
+section > h2:first-child { margin-top: 0; }
+a { color: var(--accent); }
+a.cite { font-size: 0.75em; vertical-align: super; text-decoration: none; font-weight: 600; }
+.card { background: var(--bg-card); border: 1px solid var(--border); border-radius: 16px; padding: 24px 28px; margin-bottom: 32px; }
+.summary { font-size: 1.1rem; }
+nav.toc ul { list-style: none; padding-left: 0; margin: 0; }
+nav.toc li { margin: 2px 0; }
+nav.toc a { text-decoration: none; color: var(--text-secondary); }
+nav.toc a:hover { color: var(--accent); }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; background: var(--bg-muted); border-radius: 4px; padding: 1px 5px; }
+pre { background: var(--bg-muted); border: 1px solid var(--border); border-radius: 8px; padding: 14px 16px; overflow-x: auto; }
+pre code { background: none; padding: 0; }
+blockquote { margin: 0 0 1em; padding-left: 16px; border-left: 4px solid var(--border); color: var(--text-secondary); }
+table { width: 100%; border-collapse: collapse; margin: 0 0 1em; font-size: 0.92rem; display: block; overflow-x: auto; }
+th, td { border: 1px solid var(--border); padding: 6px 10px; text-align: left; vertical-align: top; }
+th { background: var(--bg-muted); }
+hr { border: none; border-top: 1px solid var(--border); margin: 2em 0; }
+details { border: 1px solid var(--border); border-radius: 12px; margin-bottom: 12px; background: var(--bg-card); }
+details > summary { cursor: pointer; padding: 12px 16px; font-weight: 600; }
+details > div { padding: 0 16px 12px; }
+.status { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; margin-left: 8px; color: var(--text-muted); }
+.status.completed { color: var(--good); }
+.status.failed { color: var(--bad); }
+.sources { font-size: 0.9rem; color: var(--text-secondary); }
+.references li { margin-bottom: 6px; word-break: break-word; }
+.note { color: var(--text-muted); font-size: 0.85rem; }
+footer { margin-top: 48px; color: var(--text-muted); font-size: 0.8rem; text-align: center; }
+@media print { .toggle { display: none; } details { break-inside: avoid; } }
+`;
+
+// Cycles system -> light -> dark; the class on <html> overrides the system theme
+const TOGGLE_SCRIPT = `
+(function () {
+  var root = document.documentElement;
+  var button = document.getElementById('theme-toggle');
+  var order = ['system', 'light', 'dark'];
+  function current() { return root.classList.contains('light') ? 'light' : root.classList.contains('dark') ? 'dark' : 'system'; }
+  function label() { button.textContent = 'Theme: ' + current(); }
+  button.addEventListener('click', function () {
+    var next = order[(order.indexOf(current()) + 1) % order.length];
+    root.classList.remove('light', 'dark');
+    if (next !== 'system') root.classList.add(next);
+    label();
+  });
+  label();
+})();
+`;
+
+class HtmlWriter {
+  // Heading ids already used in the document
+  private ids = new Map<string, number>();
+
+  constructor(private bibliography: BibliographyEntry[]) {}
+
+  headingId(text: string): string {
+    const base = slugify(text) || 'section';
+    const count = this.ids.get(base) || 0;
+    this.ids.set(base, count + 1);
+    return count ? `${base}-${count}` : base;
+  }
+
+  inlines(content: DocInline[]): string {
+    return content.map(run => {
+      if (run.citation) {
+        const entry = this.bibliography[run.citation - 1];
+        return `<a class="cite" href="#source-${run.citation}"${entry ? ` title="${escapeHtml(entry.label)}"` : ''}>[${run.citation}]</a>`;
+      }
+      if (run.text === '\n') return '<br>';
+      let html = escapeHtml(run.text);
+      if (run.code) html = `<code>${html}</code>`;
+      if (run.bold) html = `<strong>${html}</strong>`;
+      if (run.italic) html = `<em>${html}</em>`;
+      const href = safeUrl(run.href);
+      if (href) html = `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${html}</a>`;
+      return html;
+    }).join('');
+  }
+
+  /**
+   * Renders blocks; headings are shifted by `headingOffset` so report
+   * headings nest below the section titles of the export.
+   */
+  blocks(blocks: DocBlock[], headingOffset = 0, toc?: { level: number; text: string; id: string }[]): string {
+    return blocks.map(block => {
+      switch (block.type) {
+        case 'heading': {
+          const level = Math.min(block.level + headingOffset, 6);
+          const text = inlineText(block.content.filter(run => !run.citation)).trim();
+          const id = this.headingId(text);
+          toc?.push({ level, text, id });
+          return `<h${level} id="${id}">${this.inlines(block.content)}</h${level}>`;
+        }
+        case 'paragraph':
+          return `<p>${this.inlines(block.content)}</p>`;
+        case 'list': {
+          const tag = block.ordered ? 'ol' : 'ul';
+          return `<${tag}>${block.items.map(item => `<li>${this.listItem(item, headingOffset)}</li>`).join('')}</${tag}>`;
+        }
+        case 'code':
+          return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+        case 'table':
+          return `<table><thead><tr>${block.header.map(cell => `<th>${this.inlines(cell)}</th>`).join('')}</tr></thead>`
+            + `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${this.inlines(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+        case 'quote':
+          return `<blockquote>${this.blocks(block.blocks, headingOffset)}</blockquote>`;
+        case 'rule':
+          return '<hr>';
+      }
+    }).join('\n');
+  }
+
+  // Tight list items are a single paragraph, written without <p> like Markdown renderers do
+  private listItem(item: DocBlock[], headingOffset: number): string {
+    if (item.length === 1 && item[0].type === 'paragraph') return this.inlines(item[0].content);
+    return this.blocks(item, headingOffset);
+  }
+
+  /**
+   * Reference list item; `anchor` marks the entry that citations link to.
+   */
+  reference(entry: BibliographyEntry, anchor = true): string {
+    const href = safeUrl(entry.url);
+    const label = href
+      ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${escapeHtml(entry.label)}</a>`
+      : escapeHtml(entry.label);
+    return `<li${anchor ? ` id="source-${entry.index}"` : ''} value="${entry.index}">${label}${entry.note ? ` <span class="note">(${escapeHtml(entry.note)})</span>` : ''}</li>`;
+  }
+}
+
+/**
+ * Renders the report as a standalone HTML page. `theme` is the initial
+ * theme; 'system' follows the reader's OS setting.
+ */
+export function createHtmlReport(report: ReportDocument, theme: HtmlTheme = 'system'): string {
+  const writer = new HtmlWriter(report.bibliography);
+  const toc: { level: number; text: string; id: string }[] = [];
+
+  const summary = writer.blocks(report.summary, 2);
+  const body = writer.blocks(report.body, 1, toc);
+  const verification = writer.blocks(report.verification, 0);
+  const top = Math.min(...toc.map(h => h.level));
+
+  const steps = report.appendix.map((step, i) => {
+    const sources = step.sources.map(n => report.bibliography[n - 1]).filter(Boolean);
+    return `<details>
+<summary>Step ${i + 1}: ${escapeHtml(step.query)}<span class="status ${step.status}">${escapeHtml(step.status)}</span></summary>
+<div>
+${writer.blocks(step.blocks, 3)}
+${sources.length > 0 ? `<p class="sources"><strong>Sources:</strong></p><ol class="sources references">${sources.map(entry => writer.reference(entry, false)).join('')}</ol>` : ''}
+</div>
+</details>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en"${theme === 'system' ? '' : ` class="${theme}"`}>
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="generator" content="InsightFlow AI">
+<title>Research Report: ${escapeHtml(report.query)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<button type="button" class="toggle" id="theme-toggle">Theme</button>
+<h1>${escapeHtml(report.query)}</h1>
+<p class="meta">Research report · ${escapeHtml(report.provider)} · ${escapeHtml(report.date)} · ${report.appendix.length} research steps, ${report.bibliography.length} sources</p>
+</header>
+
+<section class="card summary">
+<h2>Executive Summary</h2>
+${summary}
+</section>
+
+${toc.length > 1 ? `<nav class="card toc">
+<h2>Contents</h2>
+<ul>${toc.map(h => `<li style="padding-left: ${(h.level - top) * 1.25}rem"><a href="#${h.id}">${escapeHtml(h.text)}</a></li>`).join('')}</ul>
+</nav>` : ''}
+
+<section>
+<h2>Detailed Analysis</h2>
+${body}
+${verification}
+</section>
+
+<section>
+<h2>Research Steps</h2>
+${steps}
+</section>
+
+${report.bibliography.length > 0 ? `<section>
+<h2>References</h2>
+<ol class="references">${report.bibliography.map(entry => writer.reference(entry)).join('')}</ol>
+</section>` : ''}
+
+<footer>Generated by InsightFlow AI</footer>
+</main>
+<script>${TOGGLE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
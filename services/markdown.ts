@@ -0,0 +1,93 @@
+/**
+ * Markdown helpers for rendering reports.
+ * Heading ids are derived from the Markdown source, so the table of contents
+ * and the rendered headings agree without a second render pass.
+ */
+import { CITATION_PATTERN } from "./citations";
+
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  id: string;
+  line: number; // 1-based line of the heading in the source
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Heading text without inline Markdown, citation markers or link targets.
+ */
+export function plainHeadingText(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(new RegExp(CITATION_PATTERN.source, 'g'), '')
+    .replace(/[*_`~]/g, '')
+    .trim();
+}
+
+/**
+ * GitHub-style anchor: lowercase, punctuation removed, spaces to hyphens.
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * ATX headings of a Markdown document, skipping fenced code blocks. Repeated
+ * titles get `-1`, `-2` suffixes so every id is unique.
+ */
+export function extractHeadings(markdown: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  const used = new Map<string, number>();
+  let fence: string | null = null;
+
+  markdown.split('\n').forEach((line, i) => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      return;
+    }
+    if (fence) return;
+
+    const match = line.match(HEADING_PATTERN);
+    if (!match) return;
+    const text = plainHeadingText(match[2]);
+    const base = slugify(text) || 'section';
+    const count = used.get(base) || 0;
+    used.set(base, count + 1);
+    headings.push({ level: match[1].length, text, id: count ? `${base}-${count}` : base, line: i + 1 });
+  });
+
+  return headings;
+}
+
+/**
+ * Turns `[n]` citation markers outside code into `#cite-n` links so the
+ * Markdown renderer can show them as source links.
+ */
+export function linkCitations(markdown: string): string {
+  let fence: string | null = null;
+  return markdown.split('\n').map(line => {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      return line;
+    }
+    if (fence) return line;
+
+    // Leave inline code spans untouched
+    return line.split(/(`[^`]*`)/).map(part =>
+      part.startsWith('`')
+        ? part
+        : part.replace(CITATION_PATTERN, (_, group: string) =>
+            group.split(',').map(n => `[\\[${n.trim()}\\]](#cite-${n.trim()})`).join(''))
+    ).join('');
+  }).join('\n');
+}
@@ -2,18 +2,13 @@
  * MiniMax M2.5 Cloud service implementation.
  * Uses MiniMax API for LLM responses and Tavily for search.
  */
-import { IAIService } from "./IAIService";
-import { ResearchStep, GroundingChunk } from "../types";
-import { SearchService } from "./searchService";
-
-interface MiniMaxMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
+import { ChatMessage, ChatResearchService } from "./chatResearchService";
+import { ensureOk } from "./retry";
+import { readSse } from "./streaming";
 
 interface MiniMaxRequest {
   model: string;
-  messages: MiniMaxMessage[];
+  messages: ChatMessage[];
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
@@ -35,37 +30,27 @@ interface MiniMaxResponse {
   };
 }
 
-export class MiniMaxService implements IAIService {
-  private apiKey: string;
-  private groupId: string;
-  private model: string;
-  private search: SearchService;
+interface MiniMaxStreamChunk {
+  id: string;
+  choices: Array<{
+    delta?: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason?: string | null;
+  }>;
+}
 
-  constructor() {
-    // Load from localStorage
-    const config = this.getConfig();
-    this.apiKey = config.apiKey || "";
-    this.groupId = config.groupId || "";
-    this.model = config.model || "MiniMax-M2.5";
-    this.search = new SearchService();
-  }
+export class MiniMaxService extends ChatResearchService {
+  protected readonly provider = 'minimax';
 
-  private getConfig(): { apiKey?: string; groupId?: string; model?: string; searchApiKey?: string } {
-    try {
-      const config = localStorage.getItem('insightflow_provider_config');
-      if (config) {
-        const parsed = JSON.parse(config);
-        return {
-          apiKey: parsed.apiKey || '',
-          groupId: parsed.groupId || '',
-          model: parsed.minimaxModel || 'MiniMax-M2.5',
-          searchApiKey: parsed.searchApiKey || ''
-        };
-      }
-    } catch (e) {
-      console.error('Error loading MiniMax config:', e);
-    }
-    return {};
+  private getConfig(): { apiKey: string; groupId: string; model: string } {
+    const settings = this.loadSettings();
+    return {
+      apiKey: settings.apiKey,
+      groupId: settings.groupId || '',
+      model: settings.minimaxModel || 'MiniMax-M2.5'
+    };
   }
 
   getProviderName(): string {
@@ -73,42 +58,43 @@ export class MiniMaxService implements IAIService {
   }
 
   /**
-   * Helper method to call MiniMax API.
+   * Builds a chatcompletion_v2 request from fresh settings.
    */
-  private async callAPI(messages: MiniMaxMessage[], temperature: number = 0.7): Promise<string> {
-    // Get fresh config for each request
+  private buildRequest(messages: ChatMessage[], temperature: number, stream: boolean): { url: string; init: RequestInit } {
     const config = this.getConfig();
-    const apiKey = config.apiKey;
-    const groupId = config.groupId;
-    const model = config.model || 'MiniMax-M2.5';
-    
-    if (!apiKey || !groupId) {
+
+    if (!config.apiKey || !config.groupId) {
       throw new Error("MiniMax API key or Group ID not configured. Please configure in settings.");
     }
 
-    const url = `https://api.minimax.chat/v1/text/chatcompletion_v2?GroupId=${groupId}`;
-
     const request: MiniMaxRequest = {
-      model,
+      model: config.model,
       messages,
       temperature,
       max_tokens: 4096,
-      stream: false,
+      stream,
     };
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
+    return {
+      url: `https://api.minimax.chat/v1/text/chatcompletion_v2?GroupId=${config.groupId}`,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify(request),
       },
-      body: JSON.stringify(request),
-    });
+    };
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`MiniMax API error: ${error}`);
-    }
+  /**
+   * Calls the MiniMax API.
+   */
+  protected async complete(messages: ChatMessage[], temperature: number = 0.7, signal?: AbortSignal): Promise<string> {
+    const { url, init } = this.buildRequest(messages, temperature, false);
+    const response = await fetch(url, { ...init, signal });
+    await ensureOk(response, 'MiniMax API');
 
     const data: MiniMaxResponse = await response.json();
 
@@ -120,141 +106,16 @@ export class MiniMaxService implements IAIService {
   }
 
   /**
-   * Generates a multi-step research plan.
-   */
-  async generateResearchPlan(userQuery: string): Promise<ResearchStep[]> {
-    const messages: MiniMaxMessage[] = [
-      {
-        role: "system",
-        content: `You are a research coordinator. Break down complex queries into 3-4 distinct research steps/sub-questions for deep analysis. 
-        
-Return ONLY a JSON array of objects with this exact format:
-[{"query": "specific sub-question to research"}]
-
-Do not include any other text or formatting.`
-      },
-      {
-        role: "user",
-        content: `Break down this query into research steps: "${userQuery}"`
-      }
-    ];
-
-    try {
-      const response = await this.callAPI(messages, 0.5);
-      // Extract JSON from response (in case model adds formatting)
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      const plan = jsonMatch ? JSON.parse(jsonMatch[0]) : JSON.parse(response);
-      
-      return plan.map((p: any, index: number) => ({
-        id: `step-${index}`,
-        query: p.query,
-        status: 'pending' as const
-      }));
-    } catch (e) {
-      console.error("Failed to parse research plan", e);
-      return [{ id: 'step-0', query: userQuery, status: 'pending' }];
-    }
-  }
-
-  /**
-   * Executes a research step using Tavily search + LLM analysis.
-   */
-  async executeResearchStep(query: string): Promise<{ result: string; sources: GroundingChunk[] }> {
-    // Get config from localStorage
-    const config = this.getConfig();
-    
-    // First, perform web search
-    const { results, sources } = await this.search.search(query, 5, config.searchApiKey || undefined);
-
-    // If no results, return early
-    if (results.length === 0) {
-      return {
-        result: "No information found for this query.",
-        sources: []
-      };
-    }
-
-    // Create context from search results
-    const searchContext = this.search.summarizeResults(query, results);
-
-    // Ask LLM to analyze and synthesize the findings
-    const messages: MiniMaxMessage[] = [
-      {
-        role: "system",
-        content: `You are a research analyst. Based on the web search results provided, analyze and synthesize the information to answer the user's query.
-
-Provide a comprehensive, factual response based ONLY on the search results. 
-Cite information appropriately in your analysis.`
-      },
-      {
-        role: "user",
-        content: `Query: ${query}
-
-Search Results:
-${searchContext}
-
-Please provide a detailed analysis answering the query.`
-      }
-    ];
-
-    try {
-      const analysis = await this.callAPI(messages, 0.7);
-      return {
-        result: analysis,
-        sources
-      };
-    } catch (e) {
-      console.error("Analysis failed", e);
-      return {
-        result: searchContext,
-        sources
-      };
-    }
-  }
-
-  /**
-   * Synthesizes all research steps into a final report.
+   * Streaming variant of complete. Yields content deltas from MiniMax's SSE stream.
    */
-  async synthesizeAnalysis(originalQuery: string, steps: ResearchStep[]): Promise<{ summary: string; deepDive: string }> {
-    const researchData = steps
-      .map(s => `Query: ${s.query}\nFindings: ${s.result}`)
-      .join("\n\n---\n\n");
-
-    const messages: MiniMaxMessage[] = [
-      {
-        role: "system",
-        content: `You are a research report writer. Based on the research findings provided, create a comprehensive report.
-
-Return ONLY a JSON object with this exact format:
-{"summary": "executive summary (2-3 sentences)", "deepDive": "detailed markdown analysis with multiple sections"}
-
-The deep dive should be thorough, well-structured with headers, and include all key findings.`
-      },
-      {
-        role: "user",
-        content: `Original Query: ${originalQuery}
-
-Research Findings:
-${researchData}
-
-Create the final research report in JSON format.`
-      }
-    ];
-
-    try {
-      const response = await this.callAPI(messages, 0.7);
-      // Extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      const result = jsonMatch ? JSON.parse(jsonMatch[0]) : JSON.parse(response);
-      return {
-        summary: result.summary || "Analysis complete.",
-        deepDive: result.deepDive || response
-      };
-    } catch (e) {
-      return {
-        summary: "Analysis complete.",
-        deepDive: researchData
-      };
+  protected async *completeStream(messages: ChatMessage[], temperature: number = 0.7, signal?: AbortSignal): AsyncGenerator<string> {
+    const { url, init } = this.buildRequest(messages, temperature, true);
+    const response = await fetch(url, { ...init, signal });
+    await ensureOk(response, 'MiniMax API');
+
+    for await (const chunk of readSse<MiniMaxStreamChunk>(response)) {
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) yield content;
     }
   }
 }
@@ -0,0 +1,133 @@
+/**
+ * OpenAI-compatible chat completions service implementation.
+ * Works with any server speaking the `/v1/chat/completions` protocol
+ * (OpenAI, vLLM, llama.cpp server, LM Studio, LiteLLM proxies) and uses Tavily for search.
+ */
+import { ChatMessage, ChatResearchService } from "./chatResearchService";
+import { ensureOk } from "./retry";
+import { readSse } from "./streaming";
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+}
+
+interface ChatCompletionResponse {
+  id: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface ChatCompletionChunk {
+  id: string;
+  choices: Array<{
+    delta?: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason?: string | null;
+  }>;
+}
+
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:8000/v1";
+
+export class OpenAIService extends ChatResearchService {
+  protected readonly provider = 'openai';
+
+  private getConfig(): { apiKey: string; baseUrl: string; model: string } {
+    const settings = this.loadSettings();
+    return {
+      apiKey: settings.apiKey,
+      baseUrl: settings.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL,
+      model: settings.openaiModel || ''
+    };
+  }
+
+  getProviderName(): string {
+    const model = this.getConfig().model;
+    return model ? `OpenAI-compatible ${model}` : "OpenAI-compatible";
+  }
+
+  /**
+   * Builds the chat completions request for the configured endpoint.
+   * The API key is optional since many self-hosted servers do not check it.
+   */
+  private buildRequest(messages: ChatMessage[], temperature: number, stream: boolean): { url: string; init: RequestInit } {
+    const config = this.getConfig();
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    if (!config.model) {
+      throw new Error("OpenAI-compatible model name not configured. Please configure in settings.");
+    }
+
+    const request: ChatCompletionRequest = {
+      model: config.model,
+      messages,
+      temperature,
+      max_tokens: 4096,
+      stream,
+    };
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    return {
+      url: `${baseUrl}/chat/completions`,
+      init: {
+        method: "POST",
+        headers,
+        body: JSON.stringify(request),
+      },
+    };
+  }
+
+  /**
+   * Calls the chat completions endpoint.
+   */
+  protected async complete(messages: ChatMessage[], temperature: number = 0.7, signal?: AbortSignal): Promise<string> {
+    const { url, init } = this.buildRequest(messages, temperature, false);
+    const response = await fetch(url, { ...init, signal });
+    await ensureOk(response, 'OpenAI-compatible API');
+
+    const data: ChatCompletionResponse = await response.json();
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error("No response from OpenAI-compatible API");
+    }
+
+    return data.choices[0].message.content;
+  }
+
+  /**
+   * Streaming variant of complete. Yields content deltas from the SSE stream.
+   */
+  protected async *completeStream(messages: ChatMessage[], temperature: number = 0.7, signal?: AbortSignal): AsyncGenerator<string> {
+    const { url, init } = this.buildRequest(messages, temperature, true);
+    const response = await fetch(url, { ...init, signal });
+    await ensureOk(response, 'OpenAI-compatible API');
+
+    for await (const chunk of readSse<ChatCompletionChunk>(response)) {
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) yield content;
+    }
+  }
+}
+
+export const openai = new OpenAIService();
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildProxiedUrl, chunkText, rankChunks, readPages, tokenize } from './pageReader';
+import { TavilySearchResult } from './ISearchProvider';
+
+const result = (n: number): TavilySearchResult => ({ url: `https://site${n}.example/page`, title: `Page ${n}`, content: `Snippet ${n}` });
+
+describe('page reader', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('chunks text at sentence boundaries with overlap', () => {
+    const text = Array.from({ length: 20 }, (_, i) => `Sentence number ${i} ends here.`).join(' ');
+
+    const chunks = chunkText(text, 200, 50);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(200));
+    chunks.slice(0, -1).forEach(chunk => expect(chunk).toMatch(/\.$/));
+    // Each chunk repeats the end of the previous one
+    expect(chunks[1]).toContain(chunks[0].slice(-20).trim());
+    expect(chunks.join(' ')).toContain('Sentence number 19 ends here.');
+  });
+
+  it('tokenizes into lowercased content words', () => {
+    expect(tokenize('What are the Solar-Power costs in 2024, and why?')).toEqual(['solar', 'power', 'costs', '2024']);
+  });
+
+  it('keeps the chunks that best match the query, in document order', () => {
+    const chunks = [
+      'Wind turbines and offshore farms.',
+      'Solar module prices fell sharply.',
+      'History of the electricity grid.',
+      'Solar prices and solar capacity in Europe.'
+    ];
+
+    expect(rankChunks('solar prices', chunks, 2)).toEqual([chunks[1], chunks[3]]);
+    expect(rankChunks('the and', chunks, 2)).toEqual(chunks.slice(0, 2));
+  });
+
+  it('routes pages through the proxy prefix or template', () => {
+    expect(buildProxiedUrl('https://a.example/x?y=1')).toBe('https://a.example/x?y=1');
+    expect(buildProxiedUrl('https://a.example/x', 'http://localhost:8080/?url=')).toBe('http://localhost:8080/?url=https%3A%2F%2Fa.example%2Fx');
+    expect(buildProxiedUrl('https://a.example/x', 'http://proxy/{url}/raw')).toBe('http://proxy/https%3A%2F%2Fa.example%2Fx/raw');
+  });
+
+  it('reads only the top pages and keeps the snippet of pages that fail', async () => {
+    const fetched: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      fetched.push(url);
+      return new Response('Not found', { status: 404 });
+    }));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const results = [result(1), result(2), result(3)];
+    const read = await readPages('solar', results, { maxPages: 2, proxyUrl: 'http://proxy/?url=' });
+
+    expect(fetched).toEqual([
+      'http://proxy/?url=https%3A%2F%2Fsite1.example%2Fpage',
+      'http://proxy/?url=https%3A%2F%2Fsite2.example%2Fpage'
+    ]);
+    expect(read).toEqual(results);
+  });
+});
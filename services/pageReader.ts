@@ -0,0 +1,179 @@
+/**
+ * Page reader.
+ * Fetches the full pages behind top search results, extracts readable article
+ * text, splits it into chunks and keeps the chunks most relevant to the step
+ * query, so the LLM reasons over page content instead of short snippets.
+ */
+import { TavilySearchResult } from "./ISearchProvider";
+import { isAbortError } from "./abort";
+
+export interface PageReaderSettings {
+  /**
+   * Proxy used to avoid CORS. Either a prefix the encoded page URL is
+   * appended to (e.g. `http://localhost:8080/?url=`) or a template with `{url}`.
+   */
+  proxyUrl?: string;
+  /**
+   * Number of top results whose pages are fetched.
+   */
+  maxPages?: number;
+  /**
+   * Chunks kept per page.
+   */
+  chunksPerPage?: number;
+}
+
+const DEFAULT_MAX_PAGES = 3;
+const DEFAULT_CHUNKS_PER_PAGE = 3;
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+const PAGE_TIMEOUT_MS = 10000;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'how', 'what', 'when', 'where',
+  'which', 'who', 'why', 'with', 'from', 'that', 'this', 'these', 'those', 'into', 'about', 'does', 'was',
+  'were', 'will', 'would', 'should', 'could', 'has', 'have', 'had', 'its', 'their', 'there', 'than', 'then'
+]);
+
+/**
+ * Builds the URL actually fetched for a page, routed through the proxy if one is set.
+ */
+export function buildProxiedUrl(pageUrl: string, proxyUrl?: string): string {
+  if (!proxyUrl) return pageUrl;
+  if (proxyUrl.includes('{url}')) {
+    return proxyUrl.replace('{url}', encodeURIComponent(pageUrl));
+  }
+  return `${proxyUrl}${encodeURIComponent(pageUrl)}`;
+}
+
+/**
+ * Extracts readable text from an HTML document: prefers <article>/<main>,
+ * drops navigation, scripts and other boilerplate, and keeps block structure
+ * as paragraphs.
+ */
+export function extractReadableText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, svg, iframe, nav, header, footer, aside, form, button, [role="navigation"], [aria-hidden="true"]')
+    .forEach(el => el.remove());
+
+  const root = doc.querySelector('article') || doc.querySelector('main') || doc.body;
+  if (!root) return '';
+
+  // Short fragments are usually menus or captions; headings are kept regardless
+  const blocks = Array.from(root.querySelectorAll('h1, h2, h3, h4, p, li, blockquote, pre, td'))
+    .map(el => ({ heading: /^H\d$/.test(el.tagName), text: (el.textContent || '').replace(/\s+/g, ' ').trim() }))
+    .filter(block => block.text && (block.heading || block.text.length > 30))
+    .map(block => block.text);
+
+  const text = blocks.length > 0 ? blocks.join('\n\n') : (root.textContent || '').replace(/\s+/g, ' ');
+  return text.trim();
+}
+
+/**
+ * Splits text into overlapping chunks, breaking at paragraph or sentence
+ * boundaries where possible.
+ */
+export function chunkText(text: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '));
+      if (breakAt > size / 2) end = start + breakAt + 1;
+    }
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Lowercased content words of a text, without stop words.
+ */
+export function tokenize(text: string): string[] {
+  const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter(t => t.length > 2 && !STOP_WORDS.has(t));
+}
+
+/**
+ * Ranks chunks by how many query terms they contain, weighted by term
+ * frequency and normalised for chunk length. Returns the top `k` in
+ * document order.
+ */
+export function rankChunks(query: string, chunks: string[], k: number): string[] {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0) return chunks.slice(0, k);
+
+  const scored = chunks.map((chunk, index) => {
+    const tokens = tokenize(chunk);
+    const matched = new Set<string>();
+    let hits = 0;
+    tokens.forEach(t => {
+      if (queryTerms.has(t)) {
+        hits++;
+        matched.add(t);
+      }
+    });
+    const score = matched.size / queryTerms.size + hits / Math.sqrt(tokens.length || 1);
+    return { chunk, index, score };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .sort((a, b) => a.index - b.index)
+    .map(s => s.chunk);
+}
+
+/**
+ * Fetches and extracts a single page.
+ */
+async function readPage(url: string, proxyUrl: string | undefined, signal?: AbortSignal): Promise<string> {
+  const timeout = AbortSignal.timeout(PAGE_TIMEOUT_MS);
+  const response = await fetch(buildProxiedUrl(url, proxyUrl), {
+    headers: { Accept: 'text/html,application/xhtml+xml' },
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Page fetch failed (${response.status}) for ${url}`);
+  }
+
+  return extractReadableText(await response.text());
+}
+
+/**
+ * Replaces the snippets of the top results with the most relevant chunks of
+ * their full pages (in `readerContent`). Pages that cannot be fetched keep
+ * their snippet.
+ */
+export async function readPages(
+  query: string,
+  results: TavilySearchResult[],
+  settings: PageReaderSettings = {},
+  signal?: AbortSignal
+): Promise<TavilySearchResult[]> {
+  const maxPages = settings.maxPages || DEFAULT_MAX_PAGES;
+  const chunksPerPage = settings.chunksPerPage || DEFAULT_CHUNKS_PER_PAGE;
+
+  return Promise.all(results.map(async (result, index) => {
+    if (index >= maxPages || !result.url) return result;
+
+    try {
+      const text = await readPage(result.url, settings.proxyUrl, signal);
+      const chunks = rankChunks(query, chunkText(text), chunksPerPage);
+      if (chunks.length === 0) return result;
+      return { ...result, readerContent: chunks.join('\n\n[...]\n\n') };
+    } catch (e) {
+      if (isAbortError(e) && signal?.aborted) throw e;
+      console.warn(`Page reader skipped ${result.url}:`, e);
+      return result;
+    }
+  }));
+}
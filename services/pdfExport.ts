@@ -0,0 +1,273 @@
+/**
+ * PDF export of a report, generated in the browser with jsPDF.
+ * Lays out the document model from reportDocument.ts: title page, summary,
+ * analysis, step appendix and a bibliography that citations link to.
+ */
+import type { jsPDF } from "jspdf";
+import type { UserOptions } from "jspdf-autotable";
+import { DocBlock, DocInline, ReportDocument, inlineText, safeUrl } from "./reportDocument";
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const PT_TO_MM = 0.3528;
+
+const BODY_SIZE = 10.5;
+const HEADING_SIZES = [18, 15, 13, 11.5, 11, 10.5];
+
+const TEXT_COLOR: [number, number, number] = [30, 41, 59];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+const LINK_COLOR: [number, number, number] = [37, 99, 235];
+
+/**
+ * jspdf-autotable records the last table it drew on the document.
+ */
+type AutoTableDoc = jsPDF & { lastAutoTable?: { finalY: number } };
+
+interface TextOptions {
+  size?: number;
+  indent?: number;
+  bold?: boolean;
+  color?: [number, number, number];
+}
+
+class PdfWriter {
+  private y = MARGIN;
+  // Citation markers, linked to their bibliography entry once its position is known
+  private citations: { page: number; x: number; y: number; w: number; h: number; n: number }[] = [];
+  private entries = new Map<number, { page: number; y: number }>();
+
+  constructor(private doc: AutoTableDoc, private autoTable: (doc: jsPDF, options: UserOptions) => void) {}
+
+  private page(): number {
+    return this.doc.getCurrentPageInfo().pageNumber;
+  }
+
+  newPage(): void {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  /**
+   * Starts a new page if less than `height` mm are left.
+   */
+  private ensure(height: number): void {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) this.newPage();
+  }
+
+  space(height: number): void {
+    this.y += height;
+  }
+
+  private setFont(run: Partial<DocInline>, size: number, bold?: boolean): void {
+    const isBold = bold || run.bold;
+    const style = isBold && run.italic ? 'bolditalic' : isBold ? 'bold' : run.italic ? 'italic' : 'normal';
+    this.doc.setFont(run.code ? 'courier' : 'helvetica', style);
+    this.doc.setFontSize(size);
+  }
+
+  /**
+   * Writes inline runs with word wrapping, links and citation markers.
+   */
+  text(runs: DocInline[], options: TextOptions = {}): void {
+    const size = options.size ?? BODY_SIZE;
+    const lineHeight = size * PT_TO_MM * 1.45;
+    const left = MARGIN + (options.indent ?? 0);
+    const right = PAGE_WIDTH - MARGIN;
+    let x = left;
+    let pendingSpace = 0;
+
+    const newLine = () => {
+      this.ensure(lineHeight);
+      this.y += lineHeight;
+      x = left;
+      pendingSpace = 0;
+    };
+    newLine();
+
+    for (const run of runs) {
+      const href = safeUrl(run.href);
+      for (const token of run.text.split(/(\n|[ \t]+)/)) {
+        if (!token) continue;
+        if (token === '\n') {
+          newLine();
+          continue;
+        }
+        this.setFont(run, run.citation ? size * 0.8 : size, options.bold);
+        if (/^[ \t]+$/.test(token)) {
+          if (x > left) pendingSpace = this.doc.getTextWidth(' ');
+          continue;
+        }
+
+        const width = this.doc.getTextWidth(token);
+        if (x > left && x + pendingSpace + width > right) newLine();
+        x += pendingSpace;
+        pendingSpace = 0;
+
+        this.doc.setTextColor(...(href || run.citation ? LINK_COLOR : options.color ?? TEXT_COLOR));
+        const baseline = run.citation ? this.y - size * PT_TO_MM * 0.3 : this.y;
+        this.doc.text(token, x, baseline);
+        const height = size * PT_TO_MM;
+        if (href) {
+          this.doc.link(x, this.y - height, width, height * 1.2, { url: href });
+        } else if (run.citation) {
+          this.citations.push({ page: this.page(), x, y: this.y - height, w: width, h: height * 1.2, n: run.citation });
+        }
+        x += width;
+      }
+    }
+  }
+
+  blocks(blocks: DocBlock[], indent = 0, gap = 3): void {
+    blocks.forEach(block => {
+      switch (block.type) {
+        case 'heading': {
+          const size = HEADING_SIZES[block.level - 1] ?? BODY_SIZE;
+          // Keep headings together with the start of their section
+          this.ensure(size * PT_TO_MM * 5);
+          this.space(block.level <= 2 ? 5 : 3);
+          this.text(block.content, { size, indent, bold: true });
+          this.space(2);
+          break;
+        }
+        case 'paragraph':
+          this.text(block.content, { indent });
+          this.space(gap);
+          break;
+        case 'list':
+          block.items.forEach((item, i) => {
+            const lineHeight = BODY_SIZE * PT_TO_MM * 1.45;
+            this.ensure(lineHeight);
+            this.doc.setFont('helvetica', 'normal');
+            this.doc.setFontSize(BODY_SIZE);
+            this.doc.setTextColor(...TEXT_COLOR);
+            this.doc.text(block.ordered ? `${i + 1}.` : '•', MARGIN + indent + 1, this.y + lineHeight);
+            this.blocks(item, indent + 6, 1);
+          });
+          this.space(gap);
+          break;
+        case 'code': {
+          this.doc.setFont('courier', 'normal');
+          this.doc.setFontSize(9);
+          const lineHeight = 9 * PT_TO_MM * 1.4;
+          const lines: string[] = this.doc.splitTextToSize(block.text, PAGE_WIDTH - 2 * MARGIN - indent - 6);
+          lines.forEach(line => {
+            this.ensure(lineHeight);
+            this.doc.setFillColor(241, 245, 249);
+            this.doc.rect(MARGIN + indent, this.y, PAGE_WIDTH - 2 * MARGIN - indent, lineHeight, 'F');
+            this.doc.setTextColor(...TEXT_COLOR);
+            this.doc.text(line, MARGIN + indent + 3, this.y + lineHeight * 0.75);
+            this.y += lineHeight;
+          });
+          this.space(gap + 1);
+          break;
+        }
+        case 'table':
+          this.autoTable(this.doc, {
+            head: [block.header.map(inlineText)],
+            body: block.rows.map(row => row.map(inlineText)),
+            startY: this.y + 2,
+            margin: { left: MARGIN + indent, right: MARGIN },
+            styles: { fontSize: 9, cellPadding: 2, textColor: TEXT_COLOR },
+            headStyles: { fillColor: [51, 65, 85], textColor: 255 }
+          });
+          this.y = (this.doc.lastAutoTable?.finalY ?? this.y) + gap + 1;
+          break;
+        case 'quote':
+          this.blocks(block.blocks, indent + 6, gap);
+          break;
+        case 'rule':
+          this.ensure(6);
+          this.space(3);
+          this.doc.setDrawColor(203, 213, 225);
+          this.doc.line(MARGIN + indent, this.y, PAGE_WIDTH - MARGIN, this.y);
+          this.space(3);
+          break;
+      }
+    });
+  }
+
+  title(report: ReportDocument, sourceCount: number, stepCount: number): void {
+    this.y = 70;
+    this.text([{ text: 'Research Report' }], { size: 26, bold: true });
+    this.space(6);
+    this.text([{ text: report.query }], { size: 16 });
+    this.space(14);
+    [
+      `Provider: ${report.provider}`,
+      `Generated: ${report.date}`,
+      `${stepCount} research steps, ${sourceCount} sources`
+    ].forEach(line => this.text([{ text: line }], { size: 11, color: MUTED_COLOR }));
+  }
+
+  bibliographyEntry(index: number, label: string, url?: string, note?: string): void {
+    this.ensure(BODY_SIZE * PT_TO_MM * 3);
+    this.entries.set(index, { page: this.page(), y: this.y });
+    const runs: DocInline[] = [{ text: `[${index}] `, bold: true }, { text: label, href: url }];
+    if (note) runs.push({ text: ` (${note})` });
+    this.text(runs);
+    if (url && url !== label) this.text([{ text: url, href: url }], { size: 8, indent: 8, color: MUTED_COLOR });
+    this.space(1.5);
+  }
+
+  /**
+   * Links citation markers to their bibliography entries and numbers the pages.
+   */
+  finish(): void {
+    this.citations.forEach(c => {
+      const target = this.entries.get(c.n);
+      if (!target) return;
+      this.doc.setPage(c.page);
+      this.doc.link(c.x, c.y, c.w, c.h, { pageNumber: target.page, top: target.y });
+    });
+
+    const pages = this.doc.getNumberOfPages();
+    for (let i = 2; i <= pages; i++) {
+      this.doc.setPage(i);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(...MUTED_COLOR);
+      this.doc.text(`InsightFlow AI · ${i - 1} / ${pages - 1}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 10, { align: 'right' });
+    }
+  }
+}
+
+/**
+ * Renders the report as a PDF. jsPDF is loaded on first use so it does not
+ * weigh on sessions that never export.
+ */
+export async function createPdfReport(report: ReportDocument): Promise<Blob> {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: `Research Report: ${report.query}`, creator: 'InsightFlow AI' });
+  const writer = new PdfWriter(doc, autoTable);
+
+  writer.title(report, report.bibliography.length, report.appendix.length);
+
+  writer.newPage();
+  writer.blocks([{ type: 'heading', level: 1, content: [{ text: 'Executive Summary' }] }, ...report.summary]);
+  writer.blocks([{ type: 'heading', level: 1, content: [{ text: 'Detailed Analysis' }] }, ...report.body]);
+  if (report.verification.length > 0) writer.blocks(report.verification);
+
+  writer.newPage();
+  writer.blocks([{ type: 'heading', level: 1, content: [{ text: 'Appendix: Research Steps' }] }]);
+  report.appendix.forEach((step, i) => {
+    writer.blocks([{ type: 'heading', level: 3, content: [{ text: `Step ${i + 1}: ${step.query}` }] }]);
+    const sources: DocInline[] = step.sources.flatMap((n, j) => [
+      ...(j > 0 ? [{ text: ' ' }] : []),
+      { text: `[${n}]`, citation: n }
+    ]);
+    writer.text([{ text: `Status: ${step.status}${sources.length > 0 ? ' · Sources: ' : ''}` }, ...sources], { size: 9, color: MUTED_COLOR });
+    writer.space(2);
+    writer.blocks(step.blocks);
+  });
+
+  if (report.bibliography.length > 0) {
+    writer.newPage();
+    writer.blocks([{ type: 'heading', level: 1, content: [{ text: 'Bibliography' }] }]);
+    report.bibliography.forEach(entry => writer.bibliographyEntry(entry.index, entry.label, entry.url, entry.note));
+  }
+
+  writer.finish();
+  return doc.output('blob');
+}
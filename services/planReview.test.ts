@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { padPlan } from './planReview';
+import { getTemplate } from './templates';
+import { IAIService } from './IAIService';
+import { ResearchStep } from '../types';
+
+/**
+ * Answers every re-plan request with the next of `replies`, recording the prompts.
+ */
+function fakeService(replies: (string | Error)[]): IAIService & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    prompts,
+    generateText: async (_system: string, user: string) => {
+      prompts.push(user);
+      const reply = replies.shift();
+      if (reply instanceof Error) throw reply;
+      return reply ?? '{}';
+    },
+    getProviderName: () => 'Fake'
+  } as unknown as IAIService & { prompts: string[] };
+}
+
+const plan: ResearchStep[] = [{ id: 'step-0', query: 'solar capacity', status: 'pending' }];
+
+describe('padPlan', () => {
+  it('adds proposed steps until the plan reaches the template minimum', async () => {
+    const service = fakeService(['{"query": "solar costs"}', '{"query": "solar policy"}']);
+
+    const padded = await padPlan(service, 'solar energy', plan, getTemplate('general'));
+
+    expect(padded).toEqual([
+      plan[0],
+      { id: 'step-1', query: 'solar costs', status: 'pending' },
+      { id: 'step-2', query: 'solar policy', status: 'pending' }
+    ]);
+    expect(service.prompts[0]).toContain('Step to re-plan: (empty - propose a new step)');
+    expect(service.prompts[1]).toContain('- solar costs');
+  });
+
+  it('leaves plans that are long enough alone', async () => {
+    const service = fakeService([]);
+    const full = ['a', 'b', 'c'].map((query, i): ResearchStep => ({ id: `step-${i}`, query, status: 'pending' }));
+
+    expect(await padPlan(service, 'solar energy', full, getTemplate('general'))).toEqual(full);
+    expect(service.prompts).toHaveLength(0);
+  });
+
+  it('keeps the plan short if a proposal fails', async () => {
+    const service = fakeService(['{"query": "solar costs"}', new Error('Service unavailable')]);
+
+    const padded = await padPlan(service, 'solar energy', plan, getTemplate('general'));
+
+    expect(padded.map(s => s.query)).toEqual(['solar capacity', 'solar costs']);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Helpers for the optional plan review stage, where the user edits the
+ * research plan before execution starts.
+ */
+import { IAIService } from "./IAIService";
+import { ResearchStep } from "../types";
+import { renderPrompt } from "./prompts";
+import { ResearchTemplate } from "./templates";
+import { isAbortError } from "./abort";
+
+/**
+ * Creates an empty user-authored step with an id that cannot collide with
+ * model-generated `step-N` ids.
+ */
+export function createCustomStep(query: string = ''): ResearchStep {
+  return {
+    id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    query,
+    status: 'pending'
+  };
+}
+
+/**
+ * Asks the model for a better replacement for one step of the plan, taking
+ * the rest of the plan into account so the new question does not overlap.
+ */
+export async function replanStep(
+  service: IAIService,
+  originalQuery: string,
+  step: ResearchStep,
+  plan: ResearchStep[],
+  signal?: AbortSignal
+): Promise<string> {
+  const otherSteps = plan
+    .filter(s => s.id !== step.id && s.query.trim())
+    .map(s => `- ${s.query}`)
+    .join("\n");
+
+  const systemPrompt = renderPrompt('replan.system');
+  const userPrompt = renderPrompt('replan.user', {
+    query: originalQuery,
+    stepQuery: step.query || '(empty - propose a new step)',
+    otherSteps: otherSteps || '(none)'
+  });
+
+  const response = await service.generateText(systemPrompt, userPrompt, { temperature: 0.6, json: true, signal });
+
+  try {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+    if (typeof parsed?.query === 'string' && parsed.query.trim()) {
+      return parsed.query.trim();
+    }
+  } catch (e) {
+    console.error("Failed to parse re-planned step", e);
+  }
+  // Models sometimes ignore the JSON instruction; use the plain text answer
+  const text = response.trim().split("\n")[0].replace(/^["'-\s]+|["'\s]+$/g, '');
+  if (!text) {
+    throw new Error("The model did not return a new step");
+  }
+  return text;
+}
+
+/**
+ * Asks the model for extra steps until the plan has the template's minimum
+ * number of steps, each proposed with the rest of the plan in view. Best
+ * effort: if a proposal fails, the plan is returned as far as it got.
+ */
+export async function padPlan(
+  service: IAIService,
+  originalQuery: string,
+  plan: ResearchStep[],
+  template: ResearchTemplate,
+  signal?: AbortSignal
+): Promise<ResearchStep[]> {
+  const padded = [...plan];
+  while (padded.length < template.steps.min) {
+    const step: ResearchStep = { id: `step-${padded.length}`, query: '', status: 'pending' };
+    try {
+      step.query = await replanStep(service, originalQuery, step, padded, signal);
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn("Could not add a step to the research plan", e);
+      break;
+    }
+    padded.push(step);
+  }
+  return padded;
+}
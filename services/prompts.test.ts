@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { PROMPTS, PROMPT_VARIABLES, promptVersions, renderPrompt, savePromptOverrides } from './prompts';
+
+describe('prompt registry', () => {
+  it('documents every variable a prompt uses', () => {
+    const used = PROMPTS.flatMap(p => [...p.template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(m => m[1]));
+
+    expect(used.filter(v => !(v in PROMPT_VARIABLES))).toEqual([]);
+    PROMPTS.forEach(p => expect(p.variables.filter(v => !(v in PROMPT_VARIABLES)), p.name).toEqual([]));
+  });
+
+  it('renders every prompt without leftover placeholders', () => {
+    const variables = Object.fromEntries(Object.keys(PROMPT_VARIABLES).map(v => [v, `<${v}>`]));
+
+    PROMPTS.forEach(p => expect(renderPrompt(p.name, variables), p.name).not.toMatch(/\{\{/));
+  });
+
+  it('records versions of the verification and chat prompts', () => {
+    savePromptOverrides({ 'verification.judge.system': 'Judge {{findings}}' });
+
+    const versions = promptVersions();
+
+    expect(versions['chat.system']).toBe('v1');
+    expect(versions['verification.judge.system']).toMatch(/^v1-custom\.[0-9a-f]{8}$/);
+    expect(renderPrompt('verification.judge.system', { findings: 'F' })).toBe('Judge F');
+  });
+});
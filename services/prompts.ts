@@ -0,0 +1,470 @@
+/**
+ * Prompt library.
+ * Every prompt sent to a model (planning, step analysis and synthesis, plus
+ * follow-up questions, re-planning, claim verification and the report chat)
+ * is defined here once, as a named template with `{{variable}}` placeholders.
+ * Users can override any of them from the prompt settings; overrides are kept
+ * in localStorage and every report records the prompt versions it was
+ * produced with.
+ */
+import { CITATION_INSTRUCTIONS } from "./citations";
+import { SYNTHESIS_DIVIDER } from "./streaming";
+import { getActiveTemplate, planInstructions, stepInstructions } from "./templates";
+
+const OVERRIDES_KEY = 'insightflow_prompt_overrides';
+
+export const PROMPT_FILE_FORMAT = 'insightflow-prompts';
+export const PROMPT_FILE_VERSION = 1;
+
+export type PromptName =
+  | 'plan.system'
+  | 'plan.user'
+  | 'step.system'
+  | 'step.user'
+  | 'step.grounded'
+  | 'synthesis.system'
+  | 'synthesis.user'
+  | 'synthesis.stream.system'
+  | 'synthesis.stream.user'
+  | 'followups.system'
+  | 'followups.user'
+  | 'replan.system'
+  | 'replan.user'
+  | 'verification.extract.system'
+  | 'verification.extract.user'
+  | 'verification.judge.system'
+  | 'verification.judge.user'
+  | 'chat.system'
+  | 'chat.coverage.research'
+  | 'chat.coverage.answer'
+  | 'chat.user';
+
+export interface PromptDefinition {
+  name: PromptName;
+  title: string;
+  description: string;
+  version: number;      // Bumped whenever the built-in text changes
+  variables: string[];  // Placeholders the prompt is expected to use
+  template: string;
+}
+
+/**
+ * Variables available to every prompt. Values not passed to renderPrompt are
+ * filled in from the active research template and the citation settings.
+ */
+export const PROMPT_VARIABLES: Record<string, string> = {
+  query: 'The research query, step question or original request',
+  searchResults: 'Search results (or document excerpts) for the step',
+  findings: 'Research findings with their numbered sources: of all completed steps, of one step for follow-up questions, or the evidence selected for a batch of claims',
+  stepQuery: 'Question of the research step being expanded or re-planned',
+  otherSteps: 'The other steps of the plan, one per line',
+  maxQuestions: 'Maximum number of follow-up questions per step',
+  maxClaims: 'Maximum number of claims extracted from a report',
+  report: 'Markdown of the report (the deep dive)',
+  summary: 'Executive summary of the report',
+  claims: 'Claims to check, one "id: claim" per line',
+  coverageInstructions: 'What the chat does when the findings do not cover a question (one of the two coverage prompts)',
+  conversation: 'Earlier turns of the chat under a heading; empty for the first question',
+  question: 'The user\'s follow-up question',
+  planInstructions: 'Step count and planning focus of the research mode',
+  stepInstructions: 'Extra focus for each step from the research mode (starts on a new line; empty for General Research)',
+  reportOutline: 'Report structure required by the research mode',
+  citationInstructions: 'How to cite sources as [n]',
+  divider: 'Line separating the summary from the deep dive when streaming'
+};
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'plan.system',
+    title: 'Planning (system)',
+    description: 'Instructs the model to break the query into research steps. The reply must be a JSON array of {"query"} objects.',
+    version: 1,
+    variables: ['planInstructions'],
+    template: `You are a research coordinator. {{planInstructions}}
+
+Return ONLY a JSON array of objects with this exact format:
+[{"query": "specific sub-question to research"}]
+
+Do not include any other text or formatting.`
+  },
+  {
+    name: 'plan.user',
+    title: 'Planning (request)',
+    description: 'The planning request carrying the user\'s query.',
+    version: 1,
+    variables: ['query'],
+    template: `Break down this query into research steps: "{{query}}"`
+  },
+  {
+    name: 'step.system',
+    title: 'Step analysis (system)',
+    description: 'Role and rules for analysing the search results of one research step.',
+    version: 1,
+    variables: ['stepInstructions'],
+    template: `You are a research analyst. Based on the web search results provided, analyze and synthesize the information to answer the user's query.
+
+Provide a comprehensive, factual response based ONLY on the search results.
+Cite information appropriately in your analysis.{{stepInstructions}}`
+  },
+  {
+    name: 'step.user',
+    title: 'Step analysis (request)',
+    description: 'The step question together with its search results.',
+    version: 1,
+    variables: ['query', 'searchResults'],
+    template: `Query: {{query}}
+
+Search Results:
+{{searchResults}}
+
+Please provide a detailed analysis answering the query.`
+  },
+  {
+    name: 'step.grounded',
+    title: 'Step research (Gemini)',
+    description: 'Gemini searches itself through Google Search grounding, so its step prompt carries no search results.',
+    version: 1,
+    variables: ['query', 'stepInstructions'],
+    template: `Perform a detailed search and provide facts/data for: "{{query}}". Be concise but thorough.{{stepInstructions}}`
+  },
+  {
+    name: 'synthesis.system',
+    title: 'Synthesis (system)',
+    description: 'Writes the final report as a JSON object with "summary" and "deepDive".',
+    version: 1,
+    variables: ['reportOutline', 'citationInstructions'],
+    template: `You are a research report writer. Based on the research findings provided, create a comprehensive report.
+
+Return ONLY a JSON object with this exact format:
+{"summary": "executive summary (2-3 sentences)", "deepDive": "detailed markdown analysis with multiple sections"}
+
+{{reportOutline}}
+{{citationInstructions}}`
+  },
+  {
+    name: 'synthesis.user',
+    title: 'Synthesis (request)',
+    description: 'The original query with the findings of all completed steps.',
+    version: 1,
+    variables: ['query', 'findings'],
+    template: `Original Query: {{query}}
+
+Research Findings:
+{{findings}}
+
+Create the final research report in JSON format.`
+  },
+  {
+    name: 'synthesis.stream.system',
+    title: 'Streaming synthesis (system)',
+    description: 'Writes the final report as plain text while it streams; the divider line separates summary and deep dive.',
+    version: 1,
+    variables: ['divider', 'reportOutline', 'citationInstructions'],
+    template: `You are a research report writer. Based on the research findings provided, create a comprehensive report.
+
+First write an executive summary (2-3 sentences) as plain text.
+Then output a line containing only {{divider}}
+Then write the deep dive: a detailed markdown analysis with multiple sections.
+
+{{reportOutline}}
+{{citationInstructions}}`
+  },
+  {
+    name: 'synthesis.stream.user',
+    title: 'Streaming synthesis (request)',
+    description: 'The original query with the findings of all completed steps.',
+    version: 1,
+    variables: ['query', 'findings'],
+    template: `Original Query: {{query}}
+
+Research Findings:
+{{findings}}
+
+Create the final research report.`
+  },
+  {
+    name: 'followups.system',
+    title: 'Follow-up questions (system)',
+    description: 'Deep mode: proposes follow-up questions that fill gaps in one step\'s findings. The reply must be a JSON array of strings.',
+    version: 1,
+    variables: ['maxQuestions'],
+    template: `You are a research coordinator reviewing the findings of one research step.
+Identify the most important open questions, missing data or unverified claims in the findings that matter for the original request.
+Propose at most {{maxQuestions}} specific follow-up questions that a web search could answer. Do not repeat the step's own question.
+
+Return ONLY a JSON array of strings, e.g. ["follow-up question 1", "follow-up question 2"].
+Return [] if the findings already cover the topic well.`
+  },
+  {
+    name: 'followups.user',
+    title: 'Follow-up questions (request)',
+    description: 'The original request with the step and its findings.',
+    version: 1,
+    variables: ['query', 'stepQuery', 'findings'],
+    template: `Original Request: {{query}}
+
+Research Step: {{stepQuery}}
+
+Findings:
+{{findings}}`
+  },
+  {
+    name: 'replan.system',
+    title: 'Re-plan step (system)',
+    description: 'Plan review: rewrites one step of the plan. The reply must be a JSON object with "query".',
+    version: 1,
+    variables: [],
+    template: `You are a research coordinator refining a research plan.
+Rewrite the given research step as one specific, searchable sub-question that helps answer the original request and does not overlap with the other steps.
+
+Return ONLY a JSON object with this exact format:
+{"query": "the rewritten sub-question"}`
+  },
+  {
+    name: 'replan.user',
+    title: 'Re-plan step (request)',
+    description: 'The original request, the step to rewrite and the rest of the plan.',
+    version: 1,
+    variables: ['query', 'stepQuery', 'otherSteps'],
+    template: `Original Request: {{query}}
+
+Step to re-plan: {{stepQuery}}
+
+Other steps in the plan:
+{{otherSteps}}`
+  },
+  {
+    name: 'verification.extract.system',
+    title: 'Claim extraction (system)',
+    description: 'Splits the report into checkable claims. The reply must be a JSON array of {"claim", "sentence"} objects.',
+    version: 1,
+    variables: ['maxClaims'],
+    template: `You are a fact-checking assistant. Split the report into atomic factual claims: single statements about facts, figures, dates or events that could be checked against sources.
+Skip opinions, recommendations, headings and transitions. Return at most {{maxClaims}} claims, preferring the most important and specific ones.
+
+Return ONLY a JSON array of objects with this exact format:
+[{"claim": "the atomic claim", "sentence": "the exact sentence of the report it comes from, copied verbatim"}]`
+  },
+  {
+    name: 'verification.extract.user',
+    title: 'Claim extraction (request)',
+    description: 'The report to split into claims.',
+    version: 1,
+    variables: ['report'],
+    template: `Report:
+{{report}}`
+  },
+  {
+    name: 'verification.judge.system',
+    title: 'Claim verification (system)',
+    description: 'Judges claims against the findings. The reply must be a JSON array of {"id", "verdict", "confidence", "explanation"} objects.',
+    version: 1,
+    variables: [],
+    template: `You are a meticulous fact checker. For each claim, decide using ONLY the research findings provided:
+- "supported": the findings state or directly imply the claim
+- "contradicted": the findings state something incompatible with the claim
+- "unsupported": the findings do not address the claim
+
+Return ONLY a JSON array with one object per claim in this exact format:
+[{"id": "claim id", "verdict": "supported" | "contradicted" | "unsupported", "confidence": 0.0-1.0, "explanation": "one short sentence"}]`
+  },
+  {
+    name: 'verification.judge.user',
+    title: 'Claim verification (request)',
+    description: 'The findings behind the claims, followed by the claims.',
+    version: 1,
+    variables: ['findings', 'claims'],
+    template: `Research Findings:
+{{findings}}
+
+Claims:
+{{claims}}`
+  },
+  {
+    name: 'chat.system',
+    title: 'Report chat (system)',
+    description: 'Answers follow-up questions about a report. The reply must be a JSON object with "covered", "answer" and "researchQuery".',
+    version: 1,
+    variables: ['citationInstructions', 'coverageInstructions'],
+    template: `You are a research assistant answering follow-up questions about a research report.
+Answer ONLY from the report and the research findings provided. {{citationInstructions}}
+{{coverageInstructions}}
+
+Return ONLY a JSON object with this exact format:
+{"covered": true, "answer": "markdown answer", "researchQuery": ""}`
+  },
+  {
+    name: 'chat.coverage.research',
+    title: 'Report chat: uncovered question, research allowed',
+    description: 'Used as coverageInstructions when the chat may run an extra research step.',
+    version: 1,
+    variables: [],
+    template: `If the findings do not cover the question, set "covered" to false, give a brief answer of what is known, and propose one specific web search query in "researchQuery".`
+  },
+  {
+    name: 'chat.coverage.answer',
+    title: 'Report chat: uncovered question, no research',
+    description: 'Used as coverageInstructions when no further research may run.',
+    version: 1,
+    variables: [],
+    template: `If the findings do not cover the question, say so plainly.`
+  },
+  {
+    name: 'chat.user',
+    title: 'Report chat (request)',
+    description: 'The report, its findings, earlier turns and the question.',
+    version: 1,
+    variables: ['query', 'summary', 'report', 'findings', 'conversation', 'question'],
+    template: `Original Request: {{query}}
+
+Report Summary:
+{{summary}}
+
+Report:
+{{report}}
+
+Research Findings:
+{{findings}}
+{{conversation}}
+Question: {{question}}`
+  }
+];
+
+export function getPromptDefinition(name: PromptName): PromptDefinition {
+  const definition = PROMPTS.find(p => p.name === name);
+  if (!definition) throw new Error(`Unknown prompt: ${name}`);
+  return definition;
+}
+
+/**
+ * User overrides by prompt name.
+ */
+export function loadPromptOverrides(): Partial<Record<PromptName, string>> {
+  try {
+    const saved = localStorage.getItem(OVERRIDES_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error('Error loading prompt overrides:', e);
+  }
+  return {};
+}
+
+export function savePromptOverrides(overrides: Partial<Record<PromptName, string>>): void {
+  if (Object.keys(overrides).length === 0) {
+    localStorage.removeItem(OVERRIDES_KEY);
+  } else {
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+  }
+}
+
+/**
+ * Current text of a prompt: the user's override or the built-in template.
+ */
+export function getPromptTemplate(name: PromptName): string {
+  return loadPromptOverrides()[name] ?? getPromptDefinition(name).template;
+}
+
+/**
+ * Fills in `{{variable}}` placeholders. Unknown placeholders are left as they
+ * are so that typos in overrides stay visible in the output.
+ */
+export function interpolate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(variables, key) ? variables[key] : match);
+}
+
+/**
+ * Renders a prompt with the given variables on top of the shared ones.
+ */
+export function renderPrompt(name: PromptName, variables: Record<string, string> = {}): string {
+  const template = getActiveTemplate();
+  return interpolate(getPromptTemplate(name), {
+    planInstructions: planInstructions(template),
+    stepInstructions: stepInstructions(template),
+    reportOutline: template.outline,
+    citationInstructions: CITATION_INSTRUCTIONS,
+    divider: SYNTHESIS_DIVIDER,
+    ...variables
+  });
+}
+
+/**
+ * Expected variables that a prompt text does not use, e.g. to warn before an
+ * override drops the search results.
+ */
+export function missingVariables(name: PromptName, text: string): string[] {
+  return getPromptDefinition(name).variables.filter(v => !new RegExp(`\\{\\{\\s*${v}\\s*\\}\\}`).test(text));
+}
+
+// Short FNV-1a hash identifying the text of an override
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Version of every prompt as currently configured: the built-in version
+ * (e.g. "v1"), or the version it was based on plus a hash of the custom text
+ * (e.g. "v1-custom.3fa2c91b").
+ */
+export function promptVersions(): Record<string, string> {
+  const overrides = loadPromptOverrides();
+  return Object.fromEntries(PROMPTS.map(p => {
+    const override = overrides[p.name];
+    return [p.name, override === undefined ? `v${p.version}` : `v${p.version}-custom.${hashText(override)}`];
+  }));
+}
+
+/**
+ * Serialises the overrides for sharing, with the built-in version each one
+ * was based on.
+ */
+export function exportPromptOverrides(): string {
+  const overrides = loadPromptOverrides();
+  return JSON.stringify({
+    format: PROMPT_FILE_FORMAT,
+    version: PROMPT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    prompts: Object.fromEntries(Object.entries(overrides).map(([name, template]) => [
+      name,
+      { basedOn: getPromptDefinition(name as PromptName).version, template }
+    ]))
+  }, null, 2);
+}
+
+/**
+ * Parses an exported overrides file. Throws for malformed files and for
+ * prompts this version does not know.
+ */
+export function parsePromptOverrides(text: string): Partial<Record<PromptName, string>> {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`Invalid prompt file: not valid JSON (${e.message})`);
+  }
+  if (!data || data.format !== PROMPT_FILE_FORMAT || typeof data.prompts !== 'object' || data.prompts === null) {
+    throw new Error(`Invalid prompt file: missing "format": "${PROMPT_FILE_FORMAT}" or "prompts"`);
+  }
+  if (data.version !== PROMPT_FILE_VERSION) {
+    throw new Error(`Invalid prompt file: unsupported format version ${data.version}`);
+  }
+
+  const overrides: Partial<Record<PromptName, string>> = {};
+  const issues: string[] = [];
+  for (const [name, entry] of Object.entries<any>(data.prompts)) {
+    if (!PROMPTS.some(p => p.name === name)) {
+      issues.push(`unknown prompt "${name}"`);
+    } else if (typeof entry?.template !== 'string') {
+      issues.push(`${name}: expected a "template" string`);
+    } else {
+      overrides[name as PromptName] = entry.template;
+    }
+  }
+  if (issues.length > 0) throw new Error(`Invalid prompt file: ${issues.join('; ')}`);
+  return overrides;
+}
@@ -0,0 +1,26 @@
+/**
+ * API keys per provider.
+ * Each provider has its own key in `ProviderConfig.apiKeys`, so switching
+ * providers never sends one vendor's key to another.
+ */
+import { ProviderConfig, ProviderType } from "../types";
+
+type KeyedConfig = Pick<ProviderConfig, 'apiKeys'>;
+
+export function getApiKey(config: KeyedConfig | null | undefined, provider: ProviderType): string {
+  return config?.apiKeys?.[provider] || '';
+}
+
+export function setApiKey<T extends KeyedConfig>(config: T, provider: ProviderType, key: string): T {
+  return { ...config, apiKeys: { ...config.apiKeys, [provider]: key } };
+}
+
+/**
+ * Configs saved by earlier versions hold a single `apiKey`; it is moved to
+ * the provider that was selected when it was entered.
+ */
+export function migrateApiKey(config: ProviderConfig & { apiKey?: string }): ProviderConfig {
+  const { apiKey, ...rest } = config;
+  if (!apiKey || getApiKey(rest, rest.provider)) return rest;
+  return setApiKey(rest, rest.provider, apiKey);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { foldIntoReport } from './reportChat';
+import { AnalysisResult, GroundingChunk, ReportChatMessage, ResearchStep } from '../types';
+
+const web = (uri: string): GroundingChunk => ({ web: { uri, title: uri } });
+
+const a = web('https://a.example/report');
+const b = web('https://b.example/study');
+const c = web('https://c.example/news');
+
+const report: AnalysisResult = {
+  summary: 'Summary [1].',
+  deepDive: '## Findings\n\nA says so [1]; B agrees [2].',
+  steps: [{ id: 'step-0', query: 'topic', status: 'completed', result: 'A [1], B [2].', sources: [a, b] }],
+  allSources: [a, b]
+};
+
+const followUpStep: ResearchStep = {
+  id: 'followup-1',
+  query: 'topic update',
+  status: 'completed',
+  result: 'B again [1], C is new [2].',
+  sources: [{ ...b }, c]
+};
+
+const answer = (content: string, sources: GroundingChunk[], step?: ResearchStep): ReportChatMessage => ({
+  id: 'm1',
+  role: 'assistant',
+  content,
+  question: 'What changed?',
+  sources,
+  step
+});
+
+describe('foldIntoReport', () => {
+  it('appends the answer and keeps the numbers of the report sources', () => {
+    const folded = foldIntoReport(report, answer('A still holds [1].', report.allSources));
+
+    expect(folded.deepDive).toBe(`${report.deepDive}\n\n## Follow-up: What changed?\n\nA still holds [1].`);
+    expect(folded.allSources).toBe(report.allSources);
+    expect(folded.steps).toBe(report.steps);
+  });
+
+  it('adds the follow-up step and numbers only its new sources after the report sources', () => {
+    const folded = foldIntoReport(report, answer('B [2] and C [3].', [a, b, c], followUpStep));
+
+    expect(folded.steps.map(s => s.id)).toEqual(['step-0', 'followup-1']);
+    // The step's copy of B has the same URI, so it keeps number 2
+    expect(folded.allSources.map(s => s.web?.uri)).toEqual([a.web!.uri, b.web!.uri, c.web!.uri]);
+    expect(folded.allSources.every(s => s.credibility)).toBe(true);
+    expect(folded.deepDive).toContain('## Follow-up: What changed?\n\nB [2] and C [3].');
+  });
+
+  it('renumbers markers written against another source order and drops unknown ones', () => {
+    // The answer cited its own list: [1] is C, [2] is A, [3] is B; [4] points nowhere
+    const folded = foldIntoReport(report, answer('C [1], A [2], both [1, 3], unknown [4].', [c, a, b], followUpStep));
+
+    expect(folded.deepDive.endsWith('C [3], A [1], both [3][2], unknown.')).toBe(true);
+  });
+
+  it('does not add the same step twice', () => {
+    const once = foldIntoReport(report, answer('C [3].', [a, b, c], followUpStep));
+
+    const twice = foldIntoReport(once, { ...answer('C again [3].', once.allSources, followUpStep), id: 'm2' });
+
+    expect(twice.steps.map(s => s.id)).toEqual(['step-0', 'followup-1']);
+    expect(twice.allSources.map(s => s.web?.uri)).toEqual(once.allSources.map(s => s.web?.uri));
+    expect(twice.deepDive.endsWith('C again [3].')).toBe(true);
+  });
+});
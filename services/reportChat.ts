@@ -0,0 +1,140 @@
+/**
+ * Follow-up chat over a completed report.
+ * Questions are answered from the report, its step findings and sources. When
+ * those do not cover a question, the model proposes a targeted search that
+ * runs as an extra research step, and the answer is based on its findings.
+ */
+import { IAIService } from "./IAIService";
+import { AnalysisResult, GroundingChunk, ReportChatMessage, ResearchStep } from "../types";
+import { formatResearchData, validateCitations, remapCitations } from "./citations";
+import { appendSources } from "./sources";
+import { scoreSources } from "./credibility";
+import { throwIfAborted } from "./abort";
+import { renderPrompt } from "./prompts";
+
+/**
+ * Earlier chat turns included as context.
+ */
+const HISTORY_TURNS = 6;
+
+interface ChatAnswer {
+  answer: string;
+  researchQuery?: string;
+}
+
+function parseAnswer(response: string): ChatAnswer {
+  try {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+    return {
+      answer: typeof parsed?.answer === 'string' ? parsed.answer.trim() : '',
+      researchQuery: parsed?.covered === false && typeof parsed.researchQuery === 'string' && parsed.researchQuery.trim()
+        ? parsed.researchQuery.trim()
+        : undefined
+    };
+  } catch (e) {
+    console.error("Failed to parse follow-up answer", e);
+    // Treat a plain-text reply as the answer itself
+    return { answer: response.trim() };
+  }
+}
+
+async function askModel(
+  service: IAIService,
+  originalQuery: string,
+  result: AnalysisResult,
+  steps: ResearchStep[],
+  sources: GroundingChunk[],
+  history: ReportChatMessage[],
+  question: string,
+  allowResearch: boolean,
+  signal?: AbortSignal
+): Promise<ChatAnswer> {
+  const systemPrompt = renderPrompt('chat.system', {
+    coverageInstructions: renderPrompt(allowResearch ? 'chat.coverage.research' : 'chat.coverage.answer')
+  });
+
+  const conversation = history
+    .slice(-HISTORY_TURNS)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+    .join("\n\n");
+
+  const userPrompt = renderPrompt('chat.user', {
+    query: originalQuery,
+    summary: result.summary,
+    report: result.deepDive,
+    findings: formatResearchData(steps, sources),
+    conversation: conversation ? `\nConversation so far:\n${conversation}\n` : '',
+    question
+  });
+
+  const response = await service.generateText(systemPrompt, userPrompt, { temperature: 0.3, json: true, signal });
+  return parseAnswer(response);
+}
+
+/**
+ * Answers a follow-up question. If the existing findings do not cover it and
+ * `allowResearch` is set, runs one targeted research step first. The new step
+ * (if any) is returned so the answer can later be folded into the report.
+ */
+export async function answerFollowUp(
+  service: IAIService,
+  originalQuery: string,
+  result: AnalysisResult,
+  history: ReportChatMessage[],
+  question: string,
+  allowResearch: boolean,
+  signal?: AbortSignal
+): Promise<{ answer: string; sources: GroundingChunk[]; step?: ResearchStep }> {
+  const completed = result.steps.filter(s => s.status === 'completed');
+  const first = await askModel(service, originalQuery, result, completed, result.allSources, history, question, allowResearch, signal);
+  if (!first.researchQuery || !allowResearch) {
+    return { answer: validateCitations(first.answer, result.allSources.length).text, sources: result.allSources };
+  }
+
+  throwIfAborted(signal);
+  const startedAt = Date.now();
+  const research = await service.executeResearchStep(first.researchQuery, signal);
+  const step: ResearchStep = {
+    id: `followup-${Date.now().toString(36)}`,
+    query: first.researchQuery,
+    status: 'completed',
+    result: research.result,
+    sources: research.sources,
+    depth: 0,
+    startedAt,
+    completedAt: Date.now()
+  };
+
+  // Sources of the new step are numbered after the report's existing sources
+  const steps = [...completed, step];
+  const sources = appendSources(result.allSources, step.sources || []);
+  const second = await askModel(service, originalQuery, result, steps, sources, history, question, false, signal);
+  return {
+    answer: validateCitations(second.answer || first.answer, sources.length).text,
+    sources,
+    step
+  };
+}
+
+/**
+ * Returns a copy of the report with a follow-up answer appended as a new
+ * section, plus the research step behind it (if one ran). Citations of the
+ * answer are renumbered to the report's updated source list.
+ */
+export function foldIntoReport(result: AnalysisResult, message: ReportChatMessage): AnalysisResult {
+  const answerStep = message.step;
+  const step = answerStep && !result.steps.some(s => s.id === answerStep.id) ? answerStep : undefined;
+  const steps = step ? [...result.steps, step] : result.steps;
+  const completed = steps.filter(s => s.status === 'completed');
+  const allSources = step
+    ? scoreSources(appendSources(result.allSources, step.sources || []), completed)
+    : result.allSources;
+  const answer = remapCitations(message.content, message.sources || result.allSources, allSources);
+  return {
+    ...result,
+    deepDive: `${result.deepDive}\n\n## Follow-up: ${message.question || 'Question'}\n\n${answer}`,
+    steps,
+    allSources
+  };
+}
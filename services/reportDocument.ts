@@ -0,0 +1,194 @@
+/**
+ * Format-neutral model of a report for the document exporters.
+ * The Markdown of the report is parsed once into blocks and inline runs with
+ * resolved citations, so the PDF and DOCX writers only deal with layout.
+ */
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import type { Root, RootContent, PhrasingContent } from "mdast";
+import { AnalysisResult } from "../types";
+import { CITATION_PATTERN, globalFindings } from "./citations";
+import { sourceKey, sourceLabel } from "./sources";
+import { formatCredibility } from "./credibility";
+import { formatVerificationNote } from "./verification";
+
+export interface DocInline {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;      // External link target
+  citation?: number;  // Bibliography number of a [n] marker
+}
+
+export type DocBlock =
+  | { type: 'heading'; level: number; content: DocInline[] }
+  | { type: 'paragraph'; content: DocInline[] }
+  | { type: 'list'; ordered: boolean; items: DocBlock[][] }
+  | { type: 'code'; text: string }
+  | { type: 'table'; header: DocInline[][]; rows: DocInline[][][] }
+  | { type: 'quote'; blocks: DocBlock[] }
+  | { type: 'rule' };
+
+export interface BibliographyEntry {
+  index: number;
+  label: string;
+  url?: string;
+  note?: string; // Local document marker and credibility
+}
+
+export interface ReportDocument {
+  query: string;
+  provider: string;
+  date: string;
+  summary: DocBlock[];
+  body: DocBlock[];
+  verification: DocBlock[];
+  appendix: { query: string; status: string; blocks: DocBlock[]; sources: number[] }[];
+  bibliography: BibliographyEntry[];
+}
+
+type InlineStyle = Omit<DocInline, 'text' | 'citation'>;
+
+/**
+ * Splits plain text into runs, turning [n] markers into citation runs.
+ */
+function textRuns(text: string, style: InlineStyle, sourceCount: number): DocInline[] {
+  const runs: DocInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (match.index > last) runs.push({ ...style, text: text.slice(last, match.index) });
+    match[1].split(',').map(n => parseInt(n.trim(), 10)).forEach(n => {
+      runs.push(n >= 1 && n <= sourceCount ? { text: `[${n}]`, citation: n } : { ...style, text: `[${n}]` });
+    });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) runs.push({ ...style, text: text.slice(last) });
+  return runs;
+}
+
+function toInlines(nodes: PhrasingContent[], style: InlineStyle, sourceCount: number): DocInline[] {
+  return nodes.flatMap((node): DocInline[] => {
+    switch (node.type) {
+      case 'text': return textRuns(node.value, style, sourceCount);
+      case 'strong': return toInlines(node.children, { ...style, bold: true }, sourceCount);
+      case 'emphasis': return toInlines(node.children, { ...style, italic: true }, sourceCount);
+      case 'delete': return toInlines(node.children, style, sourceCount);
+      case 'inlineCode': return [{ ...style, text: node.value, code: true }];
+      case 'link': return toInlines(node.children, { ...style, href: node.url }, sourceCount);
+      case 'image': return node.alt ? [{ ...style, text: node.alt }] : [];
+      case 'break': return [{ ...style, text: '\n' }];
+      default: return [];
+    }
+  });
+}
+
+function toBlocks(nodes: RootContent[], sourceCount: number): DocBlock[] {
+  return nodes.flatMap((node): DocBlock[] => {
+    switch (node.type) {
+      case 'heading':
+        return [{ type: 'heading', level: node.depth, content: toInlines(node.children, {}, sourceCount) }];
+      case 'paragraph':
+        return [{ type: 'paragraph', content: toInlines(node.children, {}, sourceCount) }];
+      case 'list':
+        return [{
+          type: 'list',
+          ordered: !!node.ordered,
+          items: node.children.map(item => toBlocks(item.children, sourceCount))
+        }];
+      case 'code':
+        return [{ type: 'code', text: node.value }];
+      case 'table': {
+        const [head, ...rows] = node.children.map(row => row.children.map(cell => toInlines(cell.children, {}, sourceCount)));
+        return head ? [{ type: 'table', header: head, rows }] : [];
+      }
+      case 'blockquote':
+        return [{ type: 'quote', blocks: toBlocks(node.children, sourceCount) }];
+      case 'thematicBreak':
+        return [{ type: 'rule' }];
+      // Raw HTML from the model is dropped, as in the on-screen rendering
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Parses report Markdown (with GFM tables) into document blocks. Citation
+ * markers outside 1..sourceCount are kept as plain text.
+ */
+export function parseReportMarkdown(markdown: string, sourceCount: number = 0): DocBlock[] {
+  const tree = unified().use(remarkParse).use(remarkGfm).parse(markdown) as Root;
+  return toBlocks(tree.children, sourceCount);
+}
+
+/**
+ * Link target the exporters may emit. Only web and mail links survive;
+ * anything else (e.g. `javascript:` or `data:`) from model output or source
+ * metadata is rendered as plain text.
+ */
+export function safeUrl(url?: string): string | null {
+  if (!url) return null;
+  return /^(https?:|mailto:)/i.test(url.trim()) ? url.trim() : null;
+}
+
+/**
+ * Plain text of inline runs, e.g. for table cells.
+ */
+export function inlineText(content: DocInline[]): string {
+  return content.map(run => run.text).join('');
+}
+
+/**
+ * Collects everything the document exporters need from a completed report.
+ */
+export function buildReportDocument(query: string, result: AnalysisResult, provider: string, date: Date = new Date()): ReportDocument {
+  const count = result.allSources.length;
+  const numbers = new Map(result.allSources.map((source, i) => [sourceKey(source), i + 1]));
+
+  return {
+    query,
+    provider,
+    date: date.toLocaleString(undefined, { dateStyle: 'long', timeStyle: 'short' }),
+    summary: parseReportMarkdown(result.summary, count),
+    body: parseReportMarkdown(result.deepDive, count),
+    verification: parseReportMarkdown(formatVerificationNote(result.verification)),
+    appendix: result.steps.map(step => ({
+      query: step.query,
+      status: step.status,
+      blocks: step.result
+        ? parseReportMarkdown(globalFindings(step, result.allSources), count)
+        : parseReportMarkdown(step.status === 'failed' ? `Failed: ${step.error || 'unknown error'}` : 'No findings.'),
+      sources: [...new Set((step.sources || []).map(source => numbers.get(sourceKey(source))).filter((n): n is number => !!n))]
+    })),
+    bibliography: result.allSources.map((source, i) => ({
+      index: i + 1,
+      label: sourceLabel(source),
+      url: source.web?.uri,
+      note: [
+        source.document ? 'local document' : '',
+        source.credibility ? `credibility ${formatCredibility(source.credibility)}` : ''
+      ].filter(Boolean).join(', ') || undefined
+    }))
+  };
+}
+
+/**
+ * File name stem for exports, e.g. `research-report-1718000000000`.
+ */
+export function exportFileName(extension: string): string {
+  return `research-report-${Date.now()}.${extension}`;
+}
+
+/**
+ * Saves a generated file through a temporary download link.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
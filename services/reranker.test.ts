@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { rerankResults } from './reranker';
+import { SearchService } from './searchService';
+import { EmbeddingSettings } from './embeddings';
+import { TavilySearchResult } from './ISearchProvider';
+
+/**
+ * Embedding vectors by keyword: a text gets the vector of the first keyword it contains.
+ */
+const VECTORS: [string, number[]][] = [
+  ['query', [1, 0]],
+  ['alpha', [1, 0.1]],
+  ['beta', [0.6, 0.8]],
+  ['gamma', [0, 1]]
+];
+
+const settings: EmbeddingSettings = { provider: 'openai', baseUrl: 'http://embeddings.test/v1' };
+
+const result = (title: string, content = `${title} passage`): TavilySearchResult => ({ url: `https://${title}.example`, title, content });
+
+/**
+ * Stubs fetch: `/embeddings` answers with the keyword vectors (or `embeddingStatus`),
+ * `/search` with `searchResults`.
+ */
+function stubFetch(searchResults: object[] = [], embeddingStatus = 200) {
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    const body = JSON.parse(String(init.body));
+    if (url.endsWith('/search')) {
+      return Response.json({ results: searchResults });
+    }
+    if (embeddingStatus !== 200) {
+      return new Response('Embedding model not loaded', { status: embeddingStatus });
+    }
+    return Response.json({
+      data: (body.input as string[]).map((text, index) => ({
+        index,
+        embedding: VECTORS.find(([keyword]) => text.includes(keyword))![1]
+      }))
+    });
+  }));
+}
+
+describe('rerankResults', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('orders results by similarity to the query', async () => {
+    stubFetch();
+
+    const ranked = await rerankResults('query', [result('gamma'), result('beta'), result('alpha')], settings);
+
+    expect(ranked.map(r => r.title)).toEqual(['alpha', 'beta', 'gamma']);
+  });
+
+  it('drops passages at or above the dedup threshold of a kept one', async () => {
+    stubFetch();
+    const results = [result('alpha'), result('alpha copy', 'alpha passage again'), result('beta')];
+
+    expect((await rerankResults('query', results, settings)).map(r => r.title)).toEqual(['alpha', 'beta']);
+    // cos(alpha, beta) is about 0.67
+    expect((await rerankResults('query', results, settings, { dedupThreshold: 0.6 })).map(r => r.title)).toEqual(['alpha']);
+  });
+
+  it('keeps at most top-k passages within the token budget', async () => {
+    stubFetch();
+    const results = [result('gamma'), result('beta', `beta ${'x'.repeat(400)}`), result('alpha')];
+
+    expect((await rerankResults('query', results, settings, { topK: 2 })).map(r => r.title)).toEqual(['alpha', 'beta']);
+    // beta (about 101 tokens) does not fit a 20 token budget; gamma still does
+    expect((await rerankResults('query', results, settings, { tokenBudget: 20 })).map(r => r.title)).toEqual(['alpha', 'gamma']);
+  });
+
+  it('always keeps the best passage, even over the budget', async () => {
+    stubFetch();
+
+    const ranked = await rerankResults('query', [result('alpha', `alpha ${'x'.repeat(400)}`), result('beta')], settings, { tokenBudget: 10 });
+
+    expect(ranked.map(r => r.title)).toEqual(['alpha']);
+  });
+});
+
+describe('SearchService reranking', () => {
+  beforeEach(() => {
+    localStorage.setItem('insightflow_provider_config', JSON.stringify({
+      provider: 'openai',
+      searchProvider: 'tavily',
+      searchApiKey: 'tvly-test',
+      searchBaseUrl: 'http://search.test',
+      rerankEnabled: true,
+      embeddingProvider: 'openai',
+      embeddingBaseUrl: 'http://embeddings.test/v1'
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const searchResults = ['gamma', 'beta', 'alpha', 'delta'].map(title => ({ url: `https://${title}.example`, title, content: `${title} passage` }));
+
+  it('reranks the fetched candidates down to the requested count', async () => {
+    stubFetch(searchResults.slice(0, 3));
+
+    const { results } = await new SearchService().search('query', 2);
+
+    expect(results.map(r => r.title)).toEqual(['alpha', 'beta']);
+  });
+
+  it('falls back to the retrieval order when embedding fails', async () => {
+    stubFetch(searchResults, 500);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { results, sources } = await new SearchService().search('query', 2);
+
+    expect(results.map(r => r.title)).toEqual(['gamma', 'beta']);
+    expect(sources.map(s => s.web?.uri)).toEqual(['https://gamma.example', 'https://beta.example']);
+    expect(console.warn).toHaveBeenCalledWith('Reranking failed, using retrieval order:', expect.anything());
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Semantic reranking of retrieved passages.
+ * Embeds the step query and every candidate passage, orders candidates by
+ * cosine similarity to the query, drops near-duplicates and keeps the best
+ * passages that fit a token budget, so the LLM sees fewer, more relevant sources.
+ */
+import { TavilySearchResult } from "./ISearchProvider";
+import { EmbeddingSettings, embedTexts, cosineSimilarity } from "./embeddings";
+
+export interface RerankOptions {
+  /**
+   * Maximum number of passages kept.
+   */
+  topK?: number;
+  /**
+   * Approximate token budget for all kept passages together.
+   */
+  tokenBudget?: number;
+  /**
+   * Passages at least this similar to an already kept passage are dropped.
+   */
+  dedupThreshold?: number;
+}
+
+export const DEFAULT_RERANK_TOP_K = 5;
+export const DEFAULT_RERANK_TOKEN_BUDGET = 3000;
+export const DEFAULT_DEDUP_THRESHOLD = 0.95;
+
+/**
+ * Longest passage sent to the embedding model, in characters.
+ */
+const MAX_EMBED_CHARS = 2000;
+
+/**
+ * Rough token count (about four characters per token for English text).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Text of a result as it will appear in the prompt.
+ */
+export function passageText(result: TavilySearchResult): string {
+  return result.readerContent || result.content || result.title;
+}
+
+/**
+ * Reorders results by semantic similarity to the query and trims them to the
+ * top-k and the token budget. The best passage is always kept, even if it
+ * alone exceeds the budget.
+ */
+export async function rerankResults(
+  query: string,
+  results: TavilySearchResult[],
+  settings: EmbeddingSettings,
+  options: RerankOptions = {},
+  signal?: AbortSignal
+): Promise<TavilySearchResult[]> {
+  const topK = options.topK || DEFAULT_RERANK_TOP_K;
+  const tokenBudget = options.tokenBudget || DEFAULT_RERANK_TOKEN_BUDGET;
+  const dedupThreshold = options.dedupThreshold || DEFAULT_DEDUP_THRESHOLD;
+  if (results.length === 0) return results;
+
+  const texts = results.map(r => `${r.title}\n${passageText(r)}`.slice(0, MAX_EMBED_CHARS));
+  const [queryVector, ...passageVectors] = await embedTexts([query, ...texts], settings, signal);
+
+  const ranked = results
+    .map((result, index) => ({ result, vector: passageVectors[index], score: cosineSimilarity(queryVector, passageVectors[index]) }))
+    .sort((a, b) => b.score - a.score);
+
+  const kept: typeof ranked = [];
+  let usedTokens = 0;
+  for (const candidate of ranked) {
+    if (kept.length >= topK) break;
+    if (kept.some(k => cosineSimilarity(k.vector, candidate.vector) >= dedupThreshold)) continue;
+
+    const tokens = estimateTokens(passageText(candidate.result));
+    if (kept.length > 0 && usedTokens + tokens > tokenBudget) continue;
+
+    kept.push(candidate);
+    usedTokens += tokens;
+  }
+
+  return kept.map(k => k.result);
+}
@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ResearchOrchestrator, ResearchEvent } from './researchOrchestrator';
+import { IAIService } from './IAIService';
+import { HttpError } from './retry';
+import { GroundingChunk, ResearchStep } from '../types';
+
+type StepHandler = (query: string, signal?: AbortSignal) => AsyncGenerator<string, { result: string; sources: GroundingChunk[] }>;
+
+const source = (uri: string): GroundingChunk => ({ web: { uri, title: uri } });
+
+async function* answer(text: string, sources: GroundingChunk[] = []): AsyncGenerator<string, { result: string; sources: GroundingChunk[] }> {
+  yield text.slice(0, 4);
+  yield text.slice(4);
+  return { result: text, sources };
+}
+
+// Never yields; rejects with an AbortError once the signal fires
+async function* waitForAbort(signal?: AbortSignal): AsyncGenerator<string, { result: string; sources: GroundingChunk[] }> {
+  await new Promise<never>((_, reject) => {
+    if (signal?.aborted) reject(new DOMException('Aborted', 'AbortError'));
+    signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+  });
+  return { result: '', sources: [] };
+}
+
+/**
+ * IAIService double: the plan comes from `queries` and each step runs the
+ * handler registered for its query.
+ */
+class FakeService implements IAIService {
+  stepCalls: string[] = [];
+
+  constructor(private queries: string[], private handlers: Record<string, StepHandler>) {}
+
+  async generateResearchPlan(): Promise<ResearchStep[]> {
+    return this.queries.map((query, i) => ({ id: `step-${i}`, query, status: 'pending' }));
+  }
+
+  async executeResearchStep(): Promise<{ result: string; sources: GroundingChunk[] }> {
+    throw new Error('not used');
+  }
+
+  async synthesizeAnalysis(): Promise<{ summary: string; deepDive: string }> {
+    throw new Error('not used');
+  }
+
+  executeResearchStepStream(query: string, signal?: AbortSignal) {
+    this.stepCalls.push(query);
+    return this.handlers[query](query, signal);
+  }
+
+  async *synthesizeAnalysisStream(originalQuery: string, steps: ResearchStep[]): AsyncGenerator<string, { summary: string; deepDive: string }> {
+    yield 'Summary';
+    return { summary: 'Summary', deepDive: `## Report on ${originalQuery}\n\nBased on ${steps.length} steps.` };
+  }
+
+  async generateText(): Promise<string> {
+    return '[]';
+  }
+
+  getProviderName(): string {
+    return 'Fake';
+  }
+}
+
+function record(orchestrator: ResearchOrchestrator): ResearchEvent[] {
+  const events: ResearchEvent[] = [];
+  orchestrator.on(event => events.push(event));
+  return events;
+}
+
+describe('ResearchOrchestrator', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('emits step events in start, progress, complete order', async () => {
+    const service = new FakeService(['alpha'], { alpha: () => answer('alpha findings', [source('https://a.example')]) });
+    const orchestrator = new ResearchOrchestrator(service, { concurrency: 1 });
+    const events = record(orchestrator);
+
+    const result = await orchestrator.run('topic');
+
+    expect(events.map(e => e.type)).toEqual([
+      'plan-created',
+      'research-started',
+      'step-started',
+      'step-progress',
+      'step-progress',
+      'step-completed',
+      'synthesis-started',
+      'synthesis-progress',
+      'done'
+    ]);
+    const statuses = events.flatMap(e => 'step' in e ? [e.step.status] : []);
+    expect(statuses).toEqual(['searching', 'analyzing', 'analyzing', 'completed']);
+
+    const completed = events.find(e => e.type === 'step-completed');
+    expect(completed && 'step' in completed && completed.step.result).toBe('alpha findings');
+    expect(result?.steps[0].status).toBe('completed');
+    expect(result?.allSources).toHaveLength(1);
+    expect(result?.startedAt).toBeTypeOf('number');
+    expect(result?.completedAt).toBeGreaterThanOrEqual(result!.startedAt!);
+  });
+
+  it.each([429, 503])('retries a step after an HTTP %i error', async (status) => {
+    vi.useFakeTimers();
+    let attempts = 0;
+    const service = new FakeService(['alpha'], {
+      alpha: async function* () {
+        attempts++;
+        if (attempts === 1) {
+          yield 'partial';
+          throw new HttpError(status, `HTTP ${status}`);
+        }
+        return yield* answer('alpha findings');
+      }
+    });
+    const orchestrator = new ResearchOrchestrator(service, { retries: 2 });
+    const events = record(orchestrator);
+
+    const run = orchestrator.run('topic');
+    await vi.runAllTimersAsync();
+    const result = await run;
+
+    expect(attempts).toBe(2);
+    const retrying = events.find(e => e.type === 'step-retrying');
+    expect(retrying).toMatchObject({ type: 'step-retrying', attempt: 1, error: `HTTP ${status}` });
+    // The partial output of the failed attempt is discarded
+    expect(result?.steps[0]).toMatchObject({ status: 'completed', result: 'alpha findings', retryCount: 1 });
+  });
+
+  it('does not retry client errors', async () => {
+    const service = new FakeService(['alpha', 'beta'], {
+      alpha: async function* () {
+        throw new HttpError(400, 'Bad request');
+      },
+      beta: () => answer('beta findings')
+    });
+    const orchestrator = new ResearchOrchestrator(service, { retries: 2 });
+    const events = record(orchestrator);
+
+    await orchestrator.run('topic');
+
+    expect(service.stepCalls.filter(q => q === 'alpha')).toHaveLength(1);
+    expect(events.some(e => e.type === 'step-retrying')).toBe(false);
+  });
+
+  it('finishes the report when a step fails', async () => {
+    const service = new FakeService(['alpha', 'beta'], {
+      alpha: async function* () {
+        throw new Error('search backend down');
+      },
+      beta: () => answer('beta findings')
+    });
+    const orchestrator = new ResearchOrchestrator(service);
+    const events = record(orchestrator);
+
+    const result = await orchestrator.run('topic');
+
+    expect(events).toContainEqual(expect.objectContaining({ type: 'step-failed', error: 'search backend down' }));
+    expect(events.some(e => e.type === 'error')).toBe(false);
+    expect(events.at(-1)?.type).toBe('done');
+    expect(result?.steps.map(s => s.status)).toEqual(['failed', 'completed']);
+    expect(result?.deepDive).toContain('## Research Gaps');
+    expect(result?.deepDive).toContain('- alpha (search backend down)');
+  });
+
+  it('reports an error when every step fails', async () => {
+    const service = new FakeService(['alpha'], {
+      alpha: async function* () {
+        throw new Error('search backend down');
+      }
+    });
+    const orchestrator = new ResearchOrchestrator(service);
+    const events = record(orchestrator);
+
+    const result = await orchestrator.run('topic');
+
+    expect(result).toBeNull();
+    expect(events.at(-1)).toMatchObject({ type: 'error', error: 'All research steps failed. search backend down' });
+  });
+
+  it('cancels the run through its AbortSignal', async () => {
+    const service = new FakeService(['alpha', 'beta'], {
+      alpha: () => answer('alpha findings'),
+      beta: (_, signal) => waitForAbort(signal)
+    });
+    const orchestrator = new ResearchOrchestrator(service, { concurrency: 2 });
+    const events = record(orchestrator);
+    orchestrator.on(event => {
+      if (event.type === 'step-started' && event.step.query === 'beta') orchestrator.cancel();
+    });
+
+    const result = await orchestrator.run('topic');
+
+    expect(result).toBeNull();
+    expect(orchestrator.isRunning()).toBe(false);
+    const cancelled = events.at(-1);
+    expect(cancelled?.type).toBe('cancelled');
+    const steps = cancelled && 'steps' in cancelled ? cancelled.steps : [];
+    expect(steps.map(s => s.status)).toEqual(['completed', 'cancelled']);
+    expect(events.some(e => e.type === 'synthesis-started')).toBe(false);
+  });
+
+  it('resumes without researching completed steps again', async () => {
+    const service = new FakeService([], { beta: () => answer('beta findings') });
+    const orchestrator = new ResearchOrchestrator(service);
+
+    const result = await orchestrator.resume('topic', [
+      { id: 'step-0', query: 'alpha', status: 'completed', result: 'alpha findings' },
+      { id: 'step-1', query: 'beta', status: 'failed', error: 'timeout' }
+    ]);
+
+    expect(service.stepCalls).toEqual(['beta']);
+    expect(result?.steps.map(s => s.status)).toEqual(['completed', 'completed']);
+  });
+});
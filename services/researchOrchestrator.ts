@@ -0,0 +1,436 @@
+/**
+ * Headless research pipeline.
+ * Plans, executes and synthesizes a research run against any IAIService and
+ * reports progress through typed lifecycle events, so it can be driven by
+ * React (see hooks/useResearch.ts) or any other caller.
+ */
+import { IAIService } from "./IAIService";
+import { ResearchStep, AnalysisResult } from "../types";
+import { drainStream } from "./streaming";
+import { isAbortError, throwIfAborted } from "./abort";
+import { withRetry, DEFAULT_RETRIES } from "./retry";
+import { generateFollowUpQuestions } from "./followUps";
+import { mergeSources } from "./sources";
+import { validateCitations } from "./citations";
+import { verifyReport } from "./verification";
+import { scoreSources } from "./credibility";
+import { promptVersions } from "./prompts";
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 6;
+export const MAX_DEPTH = 3;
+export const DEFAULT_BREADTH = 2;
+export const DEFAULT_MAX_STEPS = 12;
+
+export type ResearchEvent =
+  | { type: 'plan-created'; steps: ResearchStep[] }
+  | { type: 'research-started'; steps: ResearchStep[] }
+  | { type: 'step-started'; step: ResearchStep; steps: ResearchStep[] }
+  | { type: 'step-progress'; step: ResearchStep; delta: string; steps: ResearchStep[] }
+  | { type: 'step-retrying'; step: ResearchStep; attempt: number; error: string; steps: ResearchStep[] }
+  | { type: 'step-completed'; step: ResearchStep; steps: ResearchStep[] }
+  | { type: 'steps-added'; parent: ResearchStep; added: ResearchStep[]; steps: ResearchStep[] }
+  | { type: 'step-failed'; step: ResearchStep; error: string; steps: ResearchStep[] }
+  | { type: 'synthesis-started'; steps: ResearchStep[] }
+  | { type: 'synthesis-progress'; delta: string; text: string }
+  | { type: 'verification-started' }
+  | { type: 'done'; result: AnalysisResult }
+  | { type: 'cancelled'; steps: ResearchStep[] }
+  | { type: 'error'; error: string; steps: ResearchStep[] };
+
+export type ResearchEventListener = (event: ResearchEvent) => void;
+
+export interface ResearchOptions {
+  /**
+   * Maximum number of research steps executed at the same time.
+   */
+  concurrency?: number;
+  /**
+   * Retries per provider call for transient (429/5xx) errors.
+   */
+  retries?: number;
+  /**
+   * Recursive deep research: how many levels of follow-up questions to
+   * generate below the initial plan (0 = single breadth pass).
+   */
+  depth?: number;
+  /**
+   * Maximum follow-up questions generated per completed step.
+   */
+  breadth?: number;
+  /**
+   * Total step budget across the whole tree, including the initial plan.
+   */
+  maxSteps?: number;
+  /**
+   * Check the claims of the report against the step findings after synthesis.
+   */
+  verify?: boolean;
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight.
+ * Items appended to `items` while workers run are picked up as well, which
+ * lets workers enqueue follow-up work. After the first failure no new items
+ * are started; the error is rethrown once the in-flight calls have settled.
+ * Workers that handle their own errors therefore only stop the pool on abort.
+ */
+export function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let next = 0;
+    let active = 0;
+    let failed = false;
+    let failure: unknown;
+
+    const start = (index: number) => {
+      active++;
+      Promise.resolve()
+        .then(() => {
+          throwIfAborted(signal);
+          return worker(items[index], index);
+        })
+        .catch((e) => {
+          if (!failed) {
+            failed = true;
+            failure = e;
+          }
+        })
+        .finally(() => {
+          active--;
+          pump();
+        });
+    };
+
+    const pump = () => {
+      while (!failed && active < limit && next < items.length) {
+        start(next++);
+      }
+      if (active === 0) {
+        if (failed) reject(failure);
+        else if (next >= items.length) resolve();
+      }
+    };
+
+    pump();
+  });
+}
+
+/**
+ * Orders a step tree depth-first: each root in plan order, followed by its
+ * descendants. Used so reports and merged sources do not depend on the order
+ * in which concurrent steps finished.
+ */
+export function orderStepTree(steps: ResearchStep[]): ResearchStep[] {
+  const ids = new Set(steps.map(s => s.id));
+  const ordered: ResearchStep[] = [];
+  const visit = (parentId?: string) => {
+    steps
+      .filter(s => parentId ? s.parentId === parentId : !s.parentId || !ids.has(s.parentId))
+      .forEach(s => {
+        ordered.push(s);
+        visit(s.id);
+      });
+  };
+  visit();
+  return ordered;
+}
+
+/**
+ * Markdown note listing the steps that could not be researched, appended to
+ * partial reports so the gaps stay visible in the UI and in exports.
+ */
+export function formatGapsNote(failedSteps: ResearchStep[]): string {
+  if (failedSteps.length === 0) return '';
+  const items = failedSteps.map(s => `- ${s.query} (${s.error || 'failed'})`).join('\n');
+  return `## Research Gaps\n\nThis report is based on partial findings. The following research steps failed and are not covered:\n\n${items}`;
+}
+
+export class ResearchOrchestrator {
+  private listeners = new Set<ResearchEventListener>();
+  private controller: AbortController | null = null;
+  private steps: ResearchStep[] = [];
+  private query = '';
+
+  constructor(private service: IAIService, private options: ResearchOptions = {}) {}
+
+  /**
+   * Subscribes to lifecycle events. Returns an unsubscribe function.
+   */
+  on(listener: ResearchEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * True while a run is in progress.
+   */
+  isRunning(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Aborts the in-flight run. Completed steps are kept; the rest are marked cancelled.
+   */
+  cancel(): void {
+    this.controller?.abort();
+  }
+
+  /**
+   * Runs the full pipeline for a query: plan, execute steps, synthesize.
+   * Resolves with the final report, or null if the run failed or was cancelled
+   * (the matching `error` / `cancelled` event carries the details).
+   */
+  async run(query: string): Promise<AnalysisResult | null> {
+    const steps = await this.plan(query);
+    return steps ? this.execute(query, steps) : null;
+  }
+
+  /**
+   * First half of a run: asks the model for a research plan.
+   * Callers can let the user edit the returned steps before passing them to `execute`.
+   */
+  async plan(query: string): Promise<ResearchStep[] | null> {
+    return this.track(async (signal) => {
+      this.query = query;
+      this.steps = [];
+      this.steps = await withRetry(
+        () => this.service.generateResearchPlan(query, signal),
+        { retries: this.retries, signal }
+      );
+      this.emit({ type: 'plan-created', steps: [...this.steps] });
+      return [...this.steps];
+    });
+  }
+
+  /**
+   * Second half of a run: researches the given (possibly user-edited) plan
+   * and synthesizes the report.
+   */
+  async execute(query: string, planSteps: ResearchStep[]): Promise<AnalysisResult | null> {
+    return this.track((signal) => this.research(
+      query,
+      planSteps.map(s => ({ ...s, status: 'pending' as const, result: undefined, sources: undefined, error: undefined, startedAt: undefined, completedAt: undefined })),
+      signal
+    ));
+  }
+
+  /**
+   * Continues an interrupted run (see services/checkpoints.ts): completed
+   * steps are kept as they are, every other step is researched again.
+   */
+  async resume(query: string, savedSteps: ResearchStep[]): Promise<AnalysisResult | null> {
+    return this.track((signal) => this.research(
+      query,
+      savedSteps.map(s => s.status === 'completed'
+        ? { ...s }
+        : { ...s, status: 'pending' as const, result: undefined, sources: undefined, error: undefined, retryCount: undefined, startedAt: undefined, completedAt: undefined }),
+      signal
+    ));
+  }
+
+  /**
+   * Researches the steps that are not completed yet and synthesizes the report.
+   */
+  private async research(query: string, steps: ResearchStep[], signal: AbortSignal): Promise<AnalysisResult> {
+    const startedAt = Date.now();
+    const prompts = promptVersions();
+    this.query = query;
+    this.steps = steps;
+    this.emit({ type: 'research-started', steps: [...this.steps] });
+
+    // Research (failed steps are recorded, not fatal)
+    await this.executeSteps(signal);
+    this.steps = orderStepTree(this.steps);
+
+    // Synthesize from the steps that survived
+    throwIfAborted(signal);
+    const completed = this.steps.filter(s => s.status === 'completed');
+    const failed = this.steps.filter(s => s.status === 'failed');
+    if (completed.length === 0) {
+      throw new Error(`All research steps failed. ${failed[0]?.error || ''}`.trim());
+    }
+
+    this.emit({ type: 'synthesis-started', steps: [...this.steps] });
+    let text = '';
+    const synthesis = await withRetry(() => {
+      text = '';
+      return drainStream(
+        this.service.synthesizeAnalysisStream(query, completed, signal),
+        (delta) => {
+          text += delta;
+          this.emit({ type: 'synthesis-progress', delta, text });
+        }
+      );
+    }, { retries: this.retries, signal });
+
+    // Drop citation markers that do not point at a real source
+    const allSources = scoreSources(mergeSources(completed), completed);
+    const summary = validateCitations(synthesis.summary, allSources.length);
+    const deepDive = validateCitations(synthesis.deepDive, allSources.length);
+    const invalid = Array.from(new Set([...summary.invalid, ...deepDive.invalid]));
+    if (invalid.length > 0) {
+      console.warn(`Removed citations to unknown sources: ${invalid.join(', ')}`);
+    }
+
+    const gapsNote = formatGapsNote(failed);
+    const result: AnalysisResult = {
+      summary: summary.text,
+      deepDive: gapsNote ? `${deepDive.text}\n\n${gapsNote}` : deepDive.text,
+      steps: this.steps,
+      allSources,
+      startedAt,
+      prompts
+    };
+
+    // Verification annotates the report; if it fails the report is returned without it
+    if (this.options.verify) {
+      this.emit({ type: 'verification-started' });
+      try {
+        result.verification = await withRetry(
+          () => verifyReport(this.service, deepDive.text, completed, allSources, signal),
+          { retries: this.retries, signal }
+        );
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn('Claim verification failed:', e);
+      }
+    }
+
+    result.completedAt = Date.now();
+    this.emit({ type: 'done', result });
+    return result;
+  }
+
+  /**
+   * Owns the abort controller for one phase and turns failures into
+   * `cancelled` / `error` events.
+   */
+  private async track<T>(work: (signal: AbortSignal) => Promise<T>): Promise<T | null> {
+    if (this.controller) {
+      throw new Error("A research run is already in progress");
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      return await work(controller.signal);
+    } catch (err: any) {
+      if (isAbortError(err)) {
+        this.steps = this.steps.map(s => s.status === 'completed' || s.status === 'failed' ? s : { ...s, status: 'cancelled' });
+        this.emit({ type: 'cancelled', steps: [...this.steps] });
+      } else {
+        console.error(err);
+        this.emit({
+          type: 'error',
+          error: err.message || 'An unexpected error occurred during research.',
+          steps: [...this.steps]
+        });
+      }
+      return null;
+    } finally {
+      this.controller = null;
+    }
+  }
+
+  /**
+   * Executes every pending step, streaming partial results into the step and
+   * running up to `concurrency` steps at once.
+   */
+  private async executeSteps(signal: AbortSignal): Promise<void> {
+    const concurrency = Math.min(Math.max(this.options.concurrency || DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY);
+
+    await runWithConcurrency(this.steps, concurrency, async (step, index) => {
+      // Steps restored from a checkpoint are not researched again
+      if (step.status === 'completed') return;
+
+      this.emit({ type: 'step-started', step: this.update(index, { status: 'searching', startedAt: Date.now() }), steps: [...this.steps] });
+
+      try {
+        const researchData = await withRetry(() => drainStream(
+          this.service.executeResearchStepStream(step.query, signal),
+          (delta) => {
+            const updated = this.update(index, { status: 'analyzing', result: (this.steps[index].result || '') + delta });
+            this.emit({ type: 'step-progress', step: updated, delta, steps: [...this.steps] });
+          }
+        ), {
+          retries: this.retries,
+          signal,
+          onRetry: (attempt, err: any) => {
+            // Discard the partial output of the failed attempt
+            const retrying = this.update(index, { status: 'searching', result: undefined, retryCount: attempt });
+            this.emit({ type: 'step-retrying', step: retrying, attempt, error: err?.message || String(err), steps: [...this.steps] });
+          }
+        });
+
+        const completed = this.update(index, {
+          status: 'completed',
+          result: researchData.result,
+          sources: researchData.sources,
+          blockedPassages: researchData.blockedPassages,
+          completedAt: Date.now()
+        });
+        this.emit({ type: 'step-completed', step: completed, steps: [...this.steps] });
+
+        await this.expandStep(index, signal);
+      } catch (err: any) {
+        if (isAbortError(err)) throw err;
+        const message = err?.message || String(err);
+        const failed = this.update(index, { status: 'failed', result: undefined, error: message, completedAt: Date.now() });
+        this.emit({ type: 'step-failed', step: failed, error: message, steps: [...this.steps] });
+      }
+    }, signal);
+  }
+
+  /**
+   * Deep mode: turns gaps in a completed step's findings into child steps,
+   * within the configured depth and total step budget. New steps are appended
+   * to `this.steps`, where the running pool picks them up.
+   */
+  private async expandStep(index: number, signal: AbortSignal): Promise<void> {
+    const step = this.steps[index];
+    const depth = step.depth || 0;
+    const maxDepth = Math.min(this.options.depth || 0, MAX_DEPTH);
+    const maxSteps = this.options.maxSteps || DEFAULT_MAX_STEPS;
+    const remaining = maxSteps - this.steps.length;
+    if (depth >= maxDepth || remaining <= 0) return;
+
+    const breadth = Math.min(this.options.breadth || DEFAULT_BREADTH, remaining);
+    const questions = await generateFollowUpQuestions(this.service, this.query, step, breadth, signal);
+
+    // Re-check the budget: sibling steps may have expanded while we waited
+    const added = questions
+      .slice(0, Math.max(maxSteps - this.steps.length, 0))
+      .map((question, i): ResearchStep => ({
+        id: `${step.id}.${i}`,
+        query: question,
+        status: 'pending',
+        parentId: step.id,
+        depth: depth + 1
+      }));
+    if (added.length === 0) return;
+
+    this.steps.push(...added);
+    this.emit({ type: 'steps-added', parent: step, added, steps: [...this.steps] });
+  }
+
+  private get retries(): number {
+    return this.options.retries ?? DEFAULT_RETRIES;
+  }
+
+  private update(index: number, patch: Partial<ResearchStep>): ResearchStep {
+    this.steps[index] = { ...this.steps[index], ...patch };
+    return this.steps[index];
+  }
+
+  private emit(event: ResearchEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HttpError, ensureOk, isTransientError, withRetry } from './retry';
+
+describe('isTransientError', () => {
+  it.each([
+    [429, true],
+    [500, true],
+    [503, true],
+    [529, true],
+    [400, false],
+    [401, false],
+    [404, false]
+  ])('treats HTTP %i as transient: %s', (status, transient) => {
+    expect(isTransientError(new HttpError(status, 'Request failed'))).toBe(transient);
+  });
+
+  it('reads the status of SDK errors and ignores errors without one', () => {
+    expect(isTransientError(Object.assign(new Error('Unavailable'), { status: 503 }))).toBe(true);
+    expect(isTransientError(new Error('Network down'))).toBe(false);
+    expect(isTransientError(null)).toBe(false);
+  });
+});
+
+describe('ensureOk', () => {
+  it('turns an error response into an HttpError with the body', async () => {
+    const error = await ensureOk(new Response('{"error":"slow down"}', { status: 429 }), 'Search API').catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 429, message: 'Search API error: {"error":"slow down"}' });
+    await expect(ensureOk(new Response('ok'), 'Search API')).resolves.toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient errors with growing delays until the call succeeds', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new HttpError(503, 'Unavailable'))
+      .mockRejectedValueOnce(new HttpError(429, 'Rate limited'))
+      .mockResolvedValue('done');
+    const onRetry = vi.fn();
+
+    const call = withRetry(fn, { retries: 2, baseDelayMs: 100, onRetry });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(call).resolves.toBe('done');
+    expect(fn.mock.calls.map(c => c[0])).toEqual([0, 1, 2]);
+    expect(onRetry.mock.calls.map(c => c[0])).toEqual([1, 2]);
+  });
+
+  it('gives up after the configured retries', async () => {
+    vi.useFakeTimers();
+    const fn = vi.fn().mockRejectedValue(new HttpError(500, 'Server error'));
+
+    const call = withRetry(fn, { retries: 1, baseDelayMs: 10 }).catch(e => e);
+    await vi.runAllTimersAsync();
+
+    expect(await call).toMatchObject({ status: 500 });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('rethrows other errors without retrying', async () => {
+    const fn = vi.fn().mockRejectedValue(new HttpError(401, 'Unauthorized'));
+    const onRetry = vi.fn();
+
+    await expect(withRetry(fn, { onRetry })).rejects.toMatchObject({ status: 401 });
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('stops waiting when the run is cancelled during the backoff', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(new HttpError(503, 'Unavailable'));
+
+    const call = withRetry(fn, { baseDelayMs: 60000, signal: controller.signal, onRetry: () => controller.abort() });
+
+    await expect(call).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
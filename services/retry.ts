@@ -0,0 +1,91 @@
+/**
+ * Retry with exponential backoff for transient provider errors.
+ */
+import { isAbortError, throwIfAborted } from "./abort";
+
+/**
+ * Error raised for a non-2xx HTTP response from a provider or search API.
+ */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Throws an HttpError for a non-2xx response, with the response body in the
+ * message, e.g. "Anthropic API error: {...}".
+ */
+export async function ensureOk(response: Response, label: string): Promise<void> {
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError(response.status, `${label} error: ${error}`);
+  }
+}
+
+export interface RetryOptions {
+  /**
+   * Number of retries after the first attempt.
+   */
+  retries?: number;
+  /**
+   * Delay before the first retry; doubled for every further retry.
+   */
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  /**
+   * Called before each retry with the 1-based retry number and the error that caused it.
+   */
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+export const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+
+/**
+ * Rate limits (429) and server errors (5xx) are worth retrying.
+ * Works for HttpError as well as Gemini SDK errors, which also carry `status`.
+ */
+export function isTransientError(e: unknown): boolean {
+  const status = (e as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+/**
+ * Resolves after `ms`, or rejects early if the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The research run was cancelled.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls `fn` until it succeeds, retrying transient errors with exponential
+ * backoff and jitter. Non-transient errors and aborts are rethrown immediately.
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = DEFAULT_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (e) {
+      if (isAbortError(e) || !isTransientError(e) || attempt >= retries) throw e;
+
+      const delay = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      onRetry?.(attempt + 1, e);
+      await sleep(delay, signal);
+    }
+  }
+}
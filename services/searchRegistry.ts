@@ -0,0 +1,39 @@
+/**
+ * Registry of available web search backends.
+ * Built-in adapters are registered on import; additional backends can be
+ * added with registerSearchProvider.
+ */
+import { ISearchProvider } from "./ISearchProvider";
+import { tavilySearch } from "./tavilySearch";
+import { searxngSearch } from "./searxngSearch";
+import { braveSearch } from "./braveSearch";
+
+export const DEFAULT_SEARCH_PROVIDER = "tavily";
+
+const providers = new Map<string, ISearchProvider>();
+
+/**
+ * Registers (or replaces) a search backend under its id.
+ */
+export function registerSearchProvider(provider: ISearchProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Returns the backend with the given id, falling back to Tavily for
+ * unknown or missing ids so older saved configs keep working.
+ */
+export function getSearchProvider(id?: string): ISearchProvider {
+  return providers.get(id || DEFAULT_SEARCH_PROVIDER) || providers.get(DEFAULT_SEARCH_PROVIDER)!;
+}
+
+/**
+ * Lists all registered backends in registration order.
+ */
+export function listSearchProviders(): ISearchProvider[] {
+  return Array.from(providers.values());
+}
+
+registerSearchProvider(tavilySearch);
+registerSearchProvider(searxngSearch);
+registerSearchProvider(braveSearch);
@@ -1,77 +1,162 @@
 /**
- * Search service using Tavily API.
- * Used by MiniMax and Ollama providers for web search functionality.
+ * Search service.
+ * Used by the MiniMax, Ollama, OpenAI-compatible and Anthropic providers for
+ * web search; delegates to the backend selected in settings (see searchRegistry)
+ * and mixes in hits from the local document corpus according to the corpus mode.
  */
-import { GroundingChunk } from "../types";
+import { CorpusMode, GroundingChunk } from "../types";
+import { SearchSettings, TavilySearchResult } from "./ISearchProvider";
+import { getSearchProvider } from "./searchRegistry";
+import { readPages } from "./pageReader";
+import { corpus, hitToSearchResult } from "./corpus";
+import { EmbeddingSettings } from "./embeddings";
+import { rerankResults, RerankOptions } from "./reranker";
+import { isAbortError } from "./abort";
+import { isDomainAllowed, parseDomainList } from "./domains";
+import { getApiKey } from "./providerKeys";
 
-export interface TavilySearchResult {
-  url: string;
-  title: string;
-  content: string;
+export type { TavilySearchResult } from "./ISearchProvider";
+
+interface SearchConfig {
+  provider?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  readPages?: boolean;
+  readerProxyUrl?: string;
+  corpusMode?: CorpusMode;
+  embedding?: EmbeddingSettings; // Set when semantic reranking is enabled
+  rerank?: RerankOptions;
+  allowList?: string[];
+  blockList?: string[];
 }
 
+/**
+ * Candidates fetched per kept result when reranking, so the reranker has
+ * something to choose from.
+ */
+const RERANK_CANDIDATE_FACTOR = 2;
+
+/**
+ * Characters of result text kept on a source as its excerpt. Sources are
+ * stored with the report, so the excerpt is capped.
+ */
+const MAX_EXCERPT_CHARS = 2000;
+
 export class SearchService {
   private apiKey: string;
-  private baseUrl = "https://api.tavily.com/search";
 
   constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.TAVILY_API_KEY || "";
+    this.apiKey = apiKey || "";
+  }
+
+  private getConfig(): SearchConfig {
+    try {
+      const config = localStorage.getItem('insightflow_provider_config');
+      if (config) {
+        const parsed = JSON.parse(config);
+        return {
+          provider: parsed.searchProvider || '',
+          apiKey: parsed.searchApiKey || '',
+          baseUrl: parsed.searchBaseUrl || '',
+          readPages: !!parsed.pageReaderEnabled,
+          readerProxyUrl: parsed.pageReaderProxyUrl || '',
+          corpusMode: parsed.corpusMode || 'web',
+          embedding: parsed.rerankEnabled && parsed.embeddingProvider ? {
+            provider: parsed.embeddingProvider,
+            model: parsed.embeddingModel || undefined,
+            // Default to the endpoints already configured for the chat providers
+            baseUrl: parsed.embeddingBaseUrl
+              || (parsed.embeddingProvider === 'ollama' ? parsed.model : undefined)
+              || (parsed.embeddingProvider === 'openai' ? parsed.openaiBaseUrl : undefined)
+              || undefined,
+            apiKey: parsed.embeddingApiKey || getApiKey(parsed, parsed.embeddingProvider) || undefined
+          } : undefined,
+          rerank: {
+            topK: parsed.rerankTopK || undefined,
+            tokenBudget: parsed.rerankTokenBudget || undefined
+          },
+          allowList: parseDomainList(parsed.domainAllowList),
+          blockList: parseDomainList(parsed.domainBlockList)
+        };
+      }
+    } catch (e) {
+      console.error('Error loading search config:', e);
+    }
+    return {};
+  }
+
+  /**
+   * Corpus mode in effect. Falls back to web search while no documents are loaded.
+   */
+  getCorpusMode(): CorpusMode {
+    const mode = this.getConfig().corpusMode || 'web';
+    return corpus.isEmpty() ? 'web' : mode;
   }
 
   /**
-   * Performs a web search and returns results with content.
+   * Searches the local document corpus only.
    */
-  async search(searchTerm: string, maxResults: number = 5, apiKey?: string): Promise<{ results: TavilySearchResult[], sources: GroundingChunk[] }> {
-    const key = apiKey || this.apiKey;
-    if (!key) {
-      throw new Error("TAVILY_API_KEY is not configured");
+  searchCorpus(searchTerm: string, maxResults: number = 5): { results: TavilySearchResult[], sources: GroundingChunk[] } {
+    const results = corpus.search(searchTerm, maxResults).map(hitToSearchResult);
+    return { results, sources: results.map(toSource) };
+  }
+
+  /**
+   * Performs a search with the configured backend and/or the local document
+   * corpus and returns results with content. With reranking enabled, more
+   * candidates are retrieved and semantically reranked down to the top-k.
+   * `apiKey` overrides the key from settings.
+   */
+  async search(searchTerm: string, maxResults: number = 5, apiKey?: string, signal?: AbortSignal): Promise<{ results: TavilySearchResult[], sources: GroundingChunk[] }> {
+    const config = this.getConfig();
+    const mode = this.getCorpusMode();
+    const candidates = config.embedding ? maxResults * RERANK_CANDIDATE_FACTOR : maxResults;
+    const corpusResults = mode === 'web' ? [] : this.searchCorpus(searchTerm, candidates).results;
+
+    let webResults: TavilySearchResult[] = [];
+    if (mode !== 'corpus') {
+      const provider = getSearchProvider(config.provider);
+      const settings: SearchSettings = {
+        apiKey: apiKey || config.apiKey || this.apiKey,
+        baseUrl: config.baseUrl || undefined,
+      };
+
+      // Allow/block lists are applied before pages are read or anything reaches the model
+      webResults = (await provider.search(searchTerm, candidates, settings, signal))
+        .filter(r => r.url && isDomainAllowed(r.url, config.allowList || [], config.blockList || []));
+
+      // Optionally replace snippets with the relevant parts of the full pages
+      if (config.readPages) {
+        webResults = await readPages(searchTerm, webResults, { proxyUrl: config.readerProxyUrl || undefined }, signal);
+      }
     }
 
-    const searchPayload = {
-      api_key: key,
-      query: searchTerm,
-      search_depth: "basic",
-      max_results: maxResults,
-      include_answer: true,
-      include_raw_content: false,
-      include_images: false,
-    };
-    
-    console.log("Tavily request:", JSON.stringify(searchPayload));
-
-    const response = await fetch(this.baseUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(searchPayload),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Tavily search failed: ${error}`);
+    let results = [...corpusResults, ...webResults];
+    if (config.embedding) {
+      results = await this.rerank(searchTerm, results, maxResults, config, signal);
     }
+    return { results, sources: results.map(toSource) };
+  }
 
-    const data = await response.json();
-    
-    const results: TavilySearchResult[] = (data.results || []).map((r: any) => ({
-      url: r.url || "",
-      title: r.title || "",
-      content: r.content || "",
-    }));
-
-    const sources: GroundingChunk[] = results.map((r) => ({
-      web: {
-        uri: r.url,
-        title: r.title,
-      },
-    }));
-
-    return { results, sources };
+  /**
+   * Reranks results by embedding similarity. Falls back to the retrieval
+   * order if the embedding endpoint fails, so reranking never breaks a step.
+   */
+  private async rerank(searchTerm: string, results: TavilySearchResult[], maxResults: number, config: SearchConfig, signal?: AbortSignal): Promise<TavilySearchResult[]> {
+    try {
+      return await rerankResults(searchTerm, results, config.embedding, { ...config.rerank, topK: config.rerank?.topK || maxResults }, signal);
+    } catch (e) {
+      if (isAbortError(e) && signal?.aborted) throw e;
+      console.warn('Reranking failed, using retrieval order:', e);
+      return results.slice(0, maxResults);
+    }
   }
 
   /**
    * Summarizes search results into a coherent response for research.
+   * Uses page reader content where available, otherwise the truncated snippet.
+   * Results are numbered `[1]..[n]` in the order of the returned sources;
+   * findings citing them are renumbered with `globalFindings` later on.
    */
   summarizeResults(query: string, results: TavilySearchResult[]): string {
     if (results.length === 0) {
@@ -79,11 +164,26 @@ export class SearchService {
     }
 
     const formattedResults = results
-      .map((r, i) => `[${i + 1}] ${r.title}\n${r.content.substring(0, 500)}...`)
+      .map((r, i) => `[${i + 1}] ${r.document ? 'Local document: ' : ''}${r.title}\n${r.readerContent || `${r.content.substring(0, 500)}...`}`)
       .join("\n\n");
 
     return `Search Query: ${query}\n\nFound ${results.length} relevant sources:\n\n${formattedResults}`;
   }
 }
 
+function toSource(result: TavilySearchResult): GroundingChunk {
+  const excerpt = (result.readerContent || result.content || '').slice(0, MAX_EXCERPT_CHARS) || undefined;
+  if (result.document) {
+    return { document: result.document, excerpt };
+  }
+  return {
+    web: {
+      uri: result.url,
+      title: result.title,
+      publishedDate: result.publishedDate,
+    },
+    excerpt,
+  };
+}
+
 export const searchService = new SearchService();
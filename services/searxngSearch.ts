@@ -0,0 +1,48 @@
+/**
+ * SearXNG search adapter.
+ * Uses the JSON output of a self-hosted instance (`format=json` must be
+ * enabled under `search.formats` in the instance's settings.yml).
+ */
+import { ISearchProvider, SearchSettings, TavilySearchResult } from "./ISearchProvider";
+import { HttpError } from "./retry";
+
+export const searxngSearch: ISearchProvider = {
+  id: "searxng",
+  name: "SearXNG",
+  description: "Self-hosted metasearch, no API key needed",
+  requiresApiKey: false,
+  requiresBaseUrl: true,
+  defaultBaseUrl: "http://localhost:8888",
+
+  async search(searchTerm: string, maxResults: number, settings: SearchSettings, signal?: AbortSignal): Promise<TavilySearchResult[]> {
+    const baseUrl = (settings.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+    const params = new URLSearchParams({
+      q: searchTerm,
+      format: "json",
+      safesearch: "1",
+    });
+
+    const response = await fetch(`${baseUrl}/search?${params.toString()}`, {
+      headers: {
+        Accept: "application/json",
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new HttpError(response.status, `SearXNG search failed: ${error}`);
+    }
+
+    const data = await response.json();
+
+    return (data.results || [])
+      .slice(0, maxResults)
+      .map((r: any) => ({
+        url: r.url || "",
+        title: r.title || "",
+        content: r.content || "",
+        publishedDate: r.publishedDate || undefined,
+      }));
+  },
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createSession, parseSession, serializeSession, SessionFormatError } from './session';
+import { AnalysisResult, ProviderConfig } from '../types';
+
+const result: AnalysisResult = {
+  summary: 'Summary [1].',
+  deepDive: 'Deep dive [1].',
+  steps: [{ id: 'step-0', query: 'alpha', status: 'completed', result: 'Alpha [1].', sources: [{ web: { uri: 'https://a.example', title: 'A' } }] }],
+  allSources: [{ web: { uri: 'https://a.example', title: 'A' }, credibility: { score: 70, category: 'news', citedBySteps: 1 } }],
+  verification: {
+    claims: [{ id: 'c1', claim: 'Alpha', sentence: 'Deep dive [1].', verdict: 'supported', confidence: 0.9 }],
+    supported: 1,
+    contradicted: 0,
+    unsupported: 0
+  }
+};
+
+const config = { provider: 'openai', maxConcurrentSteps: 2 } as ProviderConfig;
+
+function exported(edit: (data: any) => void = () => {}): string {
+  const data = JSON.parse(serializeSession(createSession('topic', result, 'openai', 'model', config)));
+  edit(data);
+  return JSON.stringify(data);
+}
+
+function issuesOf(text: string): string[] {
+  try {
+    parseSession(text);
+  } catch (e) {
+    if (e instanceof SessionFormatError) return e.issues;
+    throw e;
+  }
+  return [];
+}
+
+describe('parseSession', () => {
+  it('round-trips an exported session', () => {
+    expect(parseSession(exported()).result).toEqual(result);
+  });
+
+  it('rejects malformed verification claims with their paths', () => {
+    const issues = issuesOf(exported(data => {
+      data.result.verification.claims[0].verdict = 'probably';
+      data.result.verification.claims[0].confidence = '90%';
+      delete data.result.verification.claims[0].sentence;
+      data.result.verification.claims.push('c2');
+    }));
+
+    expect(issues).toEqual([
+      'result.verification.claims[0].sentence: expected a string',
+      'result.verification.claims[0].verdict: expected one of supported, contradicted, unsupported, unverified',
+      'result.verification.claims[0].confidence: expected a number',
+      'result.verification.claims[1]: expected a claim object'
+    ]);
+  });
+
+  it('rejects malformed source credibility with its path', () => {
+    const issues = issuesOf(exported(data => {
+      data.result.allSources[0].credibility = { score: 'high', category: 'tabloid', citedBySteps: 1 };
+      data.steps[0].sources[0].credibility = 'good';
+    }));
+
+    expect(issues).toContain('steps[0].sources[0].credibility: expected a credibility object');
+    expect(issues).toContain('result.allSources[0].credibility.score: expected a number');
+    expect(issues).toContain(`result.allSources[0].credibility.category: expected one of academic, government, document, reference, news, corporate, unknown, blog, social`);
+  });
+});
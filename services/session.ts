@@ -0,0 +1,248 @@
+/**
+ * Structured export and import of a complete research session.
+ * A session file is versioned JSON holding the query, every step with its
+ * status, findings, sources and timings, the final report and the provider
+ * and settings that produced it, so a report can be re-opened, diffed or
+ * processed by scripts. API keys are never included.
+ */
+import { AnalysisResult, ClaimVerdict, ProviderConfig, ProviderType, ResearchStep, SourceCategory } from "../types";
+import { CATEGORY_LABELS } from "./credibility";
+
+export const SESSION_FORMAT = 'insightflow-session';
+export const SESSION_VERSION = 1;
+
+/**
+ * Research settings recorded with a session.
+ */
+export type SessionSettings = Pick<ProviderConfig,
+  'maxConcurrentSteps' | 'researchDepth' | 'researchBreadth' | 'maxResearchSteps' | 'verifyClaims' | 'rerankEnabled' | 'researchTemplate'>;
+
+export interface ResearchSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  exportedAt: string;      // ISO 8601
+  query: string;
+  provider: ProviderType;
+  model: string;           // Provider and model as shown in the UI
+  settings: SessionSettings;
+  prompts?: Record<string, string>; // Prompt name to version, when the report records them
+  steps: ResearchStep[];
+  result: AnalysisResult;
+}
+
+/**
+ * Raised for files that are not valid session files. `issues` lists every
+ * problem found, each prefixed with the path of the offending field.
+ */
+export class SessionFormatError extends Error {
+  constructor(public issues: string[]) {
+    super(issues.length === 1
+      ? `Invalid session file: ${issues[0]}`
+      : `Invalid session file (${issues.length} problems): ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '; ...' : ''}`);
+    this.name = 'SessionFormatError';
+  }
+}
+
+const PROVIDERS: ProviderType[] = ['gemini', 'minimax', 'ollama', 'openai', 'anthropic'];
+const STEP_STATUSES: ResearchStep['status'][] = ['pending', 'searching', 'analyzing', 'completed', 'failed', 'cancelled'];
+const VERDICTS: ClaimVerdict[] = ['supported', 'contradicted', 'unsupported', 'unverified'];
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as SourceCategory[];
+
+export function createSession(
+  query: string,
+  result: AnalysisResult,
+  provider: ProviderType,
+  model: string,
+  config: ProviderConfig
+): ResearchSession {
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    exportedAt: new Date().toISOString(),
+    query,
+    provider,
+    model,
+    settings: {
+      maxConcurrentSteps: config.maxConcurrentSteps,
+      researchDepth: config.researchDepth,
+      researchBreadth: config.researchBreadth,
+      maxResearchSteps: config.maxResearchSteps,
+      verifyClaims: config.verifyClaims,
+      rerankEnabled: config.rerankEnabled,
+      researchTemplate: config.researchTemplate
+    },
+    prompts: result.prompts,
+    steps: result.steps,
+    result
+  };
+}
+
+export function serializeSession(session: ResearchSession): string {
+  return JSON.stringify(session, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Collects schema problems of a parsed session into `issues`.
+ */
+class SessionValidator {
+  issues: string[] = [];
+
+  fail(path: string, message: string): void {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  string(value: unknown, path: string, optional = false): void {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string') this.fail(path, 'expected a string');
+  }
+
+  number(value: unknown, path: string, optional = false): void {
+    if (value === undefined && optional) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) this.fail(path, 'expected a number');
+  }
+
+  source(value: unknown, path: string): void {
+    if (!isObject(value)) return this.fail(path, 'expected a source object');
+    if (isObject(value.web)) {
+      this.string(value.web.uri, `${path}.web.uri`);
+      this.string(value.web.title, `${path}.web.title`);
+    } else if (isObject(value.document)) {
+      this.string(value.document.documentId, `${path}.document.documentId`);
+      this.string(value.document.fileName, `${path}.document.fileName`);
+    } else {
+      this.fail(path, 'expected a "web" or "document" source');
+    }
+    this.credibility(value.credibility, `${path}.credibility`);
+    this.string(value.excerpt, `${path}.excerpt`, true);
+  }
+
+  credibility(value: unknown, path: string): void {
+    if (value === undefined) return;
+    if (!isObject(value)) return this.fail(path, 'expected a credibility object');
+    this.number(value.score, `${path}.score`);
+    if (!CATEGORIES.includes(value.category)) {
+      this.fail(`${path}.category`, `expected one of ${CATEGORIES.join(', ')}`);
+    }
+    this.number(value.ageYears, `${path}.ageYears`, true);
+    this.number(value.citedBySteps, `${path}.citedBySteps`);
+  }
+
+  sources(value: unknown, path: string, optional = false): void {
+    if (value === undefined && optional) return;
+    if (!Array.isArray(value)) return this.fail(path, 'expected an array of sources');
+    value.forEach((source, i) => this.source(source, `${path}[${i}]`));
+  }
+
+  prompts(value: unknown, path: string): void {
+    if (value === undefined) return;
+    if (!(isObject(value) && Object.values(value).every(v => typeof v === 'string'))) {
+      this.fail(path, 'expected an object of prompt names to versions');
+    }
+  }
+
+  steps(value: unknown, path: string): void {
+    if (!Array.isArray(value)) return this.fail(path, 'expected an array of research steps');
+    value.forEach((step, i) => {
+      const at = `${path}[${i}]`;
+      if (!isObject(step)) return this.fail(at, 'expected a research step object');
+      this.string(step.id, `${at}.id`);
+      this.string(step.query, `${at}.query`);
+      if (!STEP_STATUSES.includes(step.status)) {
+        this.fail(`${at}.status`, `expected one of ${STEP_STATUSES.join(', ')}`);
+      }
+      this.string(step.result, `${at}.result`, true);
+      this.string(step.error, `${at}.error`, true);
+      this.string(step.parentId, `${at}.parentId`, true);
+      this.number(step.depth, `${at}.depth`, true);
+      this.number(step.startedAt, `${at}.startedAt`, true);
+      this.number(step.completedAt, `${at}.completedAt`, true);
+      this.number(step.blockedPassages, `${at}.blockedPassages`, true);
+      this.sources(step.sources, `${at}.sources`, true);
+    });
+  }
+
+  result(value: unknown, path: string): void {
+    if (!isObject(value)) return this.fail(path, 'expected the report object');
+    this.string(value.summary, `${path}.summary`);
+    this.string(value.deepDive, `${path}.deepDive`);
+    this.steps(value.steps, `${path}.steps`);
+    this.sources(value.allSources, `${path}.allSources`);
+    this.number(value.startedAt, `${path}.startedAt`, true);
+    this.number(value.completedAt, `${path}.completedAt`, true);
+    this.prompts(value.prompts, `${path}.prompts`);
+    this.verification(value.verification, `${path}.verification`);
+  }
+
+  verification(value: unknown, path: string): void {
+    if (value === undefined) return;
+    if (!(isObject(value) && Array.isArray(value.claims))) {
+      return this.fail(path, 'expected a verification report with a "claims" array');
+    }
+    value.claims.forEach((claim, i) => {
+      const at = `${path}.claims[${i}]`;
+      if (!isObject(claim)) return this.fail(at, 'expected a claim object');
+      this.string(claim.id, `${at}.id`);
+      this.string(claim.claim, `${at}.claim`);
+      this.string(claim.sentence, `${at}.sentence`);
+      if (!VERDICTS.includes(claim.verdict)) {
+        this.fail(`${at}.verdict`, `expected one of ${VERDICTS.join(', ')}`);
+      }
+      this.number(claim.confidence, `${at}.confidence`);
+      this.string(claim.explanation, `${at}.explanation`, true);
+    });
+    (['supported', 'contradicted', 'unsupported'] as const).forEach(count => this.number(value[count], `${path}.${count}`));
+    this.number(value.unverified, `${path}.unverified`, true);
+  }
+}
+
+/**
+ * Parses and validates a session file. Throws SessionFormatError with every
+ * problem found for malformed files and for files of another format version.
+ */
+export function parseSession(text: string): ResearchSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e: any) {
+    throw new SessionFormatError([`not valid JSON (${e.message})`]);
+  }
+
+  if (!isObject(data) || data.format !== SESSION_FORMAT) {
+    throw new SessionFormatError(['not an InsightFlow session export (missing "format": "insightflow-session")']);
+  }
+  if (typeof data.version !== 'number') {
+    throw new SessionFormatError(['version: missing format version']);
+  }
+  if (data.version > SESSION_VERSION) {
+    throw new SessionFormatError([`version: the file uses format version ${data.version}, which is newer than this app supports (${SESSION_VERSION}). Update InsightFlow to open it.`]);
+  }
+  if (data.version < SESSION_VERSION) {
+    throw new SessionFormatError([`version: format version ${data.version} is no longer supported; re-export the session with a current version of InsightFlow.`]);
+  }
+
+  const validator = new SessionValidator();
+  validator.string(data.exportedAt, 'exportedAt');
+  validator.string(data.query, 'query');
+  if (!PROVIDERS.includes(data.provider)) {
+    validator.fail('provider', `expected one of ${PROVIDERS.join(', ')}`);
+  }
+  validator.string(data.model, 'model');
+  if (!isObject(data.settings)) validator.fail('settings', 'expected an object');
+  validator.prompts(data.prompts, 'prompts');
+  validator.steps(data.steps, 'steps');
+  validator.result(data.result, 'result');
+
+  if (validator.issues.length > 0) throw new SessionFormatError(validator.issues);
+  return data as unknown as ResearchSession;
+}
+
+/**
+ * Total research time of a session in seconds, if its timings are known.
+ */
+export function sessionDuration(session: ResearchSession): number | undefined {
+  const { startedAt, completedAt } = session.result;
+  return startedAt && completedAt ? Math.round((completedAt - startedAt) / 1000) : undefined;
+}
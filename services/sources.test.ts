@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { appendSources, mergeSources } from './sources';
+import { formatResearchData } from './citations';
+import { GroundingChunk, ResearchStep } from '../types';
+
+const web = (uri: string, title = uri): GroundingChunk => ({ web: { uri, title } });
+
+const steps: ResearchStep[] = [
+  {
+    id: 'step-0',
+    query: 'alpha',
+    status: 'completed',
+    result: 'Blocked [1], allowed [2], document [3].',
+    sources: [
+      // Gemini grounding link: the real domain is the title
+      web('https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc', 'pinterest.com'),
+      web('https://www.nature.com/articles/1'),
+      { document: { documentId: 'doc-1', fileName: 'notes.pdf', page: 2 } }
+    ]
+  }
+];
+
+describe('mergeSources', () => {
+  it('drops sources excluded by the domain lists, including grounding redirects', () => {
+    const merged = mergeSources(steps, { allowList: [], blockList: ['pinterest.com'] });
+
+    expect(merged.map(s => s.web?.uri || s.document?.fileName)).toEqual(['https://www.nature.com/articles/1', 'notes.pdf']);
+  });
+
+  it('keeps local documents under an allow list', () => {
+    const merged = mergeSources(steps, { allowList: ['example.org'], blockList: [] });
+
+    expect(merged.map(s => s.document?.fileName)).toEqual(['notes.pdf']);
+  });
+
+  it('reads the lists from the saved settings', () => {
+    localStorage.setItem('insightflow_provider_config', JSON.stringify({ provider: 'gemini', domainBlockList: 'pinterest.com' }));
+
+    const data = formatResearchData(steps);
+
+    expect(data).not.toContain('pinterest');
+    expect(data).toContain('Findings: Blocked, allowed [1], document [2].');
+  });
+});
+
+describe('appendSources', () => {
+  it('keeps the report sources and their numbers and appends new allowed sources', () => {
+    const report = [web('https://pinterest.com/pin/1'), web('https://www.nature.com/articles/1')];
+
+    const sources = appendSources(report, [
+      web('https://www.nature.com/articles/1'),
+      web('https://pinterest.com/pin/2'),
+      web('https://example.org/new'),
+      web('https://example.org/new')
+    ], { allowList: [], blockList: ['pinterest.com'] });
+
+    expect(sources.map(s => s.web?.uri)).toEqual([
+      'https://pinterest.com/pin/1',
+      'https://www.nature.com/articles/1',
+      'https://example.org/new'
+    ]);
+  });
+});
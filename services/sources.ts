@@ -0,0 +1,56 @@
+/**
+ * Helpers for working with GroundingChunk sources, which can point either at
+ * a web page or at a page of a local document.
+ */
+import { GroundingChunk, ResearchStep } from "../types";
+import { DomainFilter, getDomainFilter, isSourceAllowed } from "./domains";
+
+/**
+ * Stable identity of a source, used for de-duplication.
+ */
+export function sourceKey(source: GroundingChunk): string {
+  if (source.document) {
+    return `doc:${source.document.documentId}#${source.document.page ?? ''}`;
+  }
+  return source.web?.uri || '';
+}
+
+/**
+ * Human-readable label: the page title, the document name and page, or the domain.
+ */
+export function sourceLabel(source: GroundingChunk): string {
+  if (source.document) {
+    const page = source.document.page ? `, p. ${source.document.page}` : '';
+    return `${source.document.fileName}${page}`;
+  }
+  if (source.web?.title) return source.web.title;
+  try {
+    return new URL(source.web?.uri || '').hostname.replace('www.', '');
+  } catch {
+    return source.web?.uri || 'Source';
+  }
+}
+
+/**
+ * Merges the sources of all steps in plan order, dropping duplicates and
+ * sources the domain allow and block lists exclude.
+ * The result does not depend on the order in which steps finished, and its
+ * order defines the `[n]` citation numbers of the report. A finished report
+ * keeps its list on `AnalysisResult.allSources`; later stages use that list
+ * rather than merging again, so a change to the domain lists cannot renumber it.
+ */
+export function mergeSources(steps: ResearchStep[], filter: DomainFilter = getDomainFilter()): GroundingChunk[] {
+  const allSources = steps.flatMap(s => s.sources || []).filter(s => isSourceAllowed(s, filter));
+  return Array.from(new Map(allSources.map(s => [sourceKey(s), s])).values());
+}
+
+/**
+ * Adds the sources of a step researched after the report was written. The
+ * report's list is kept as it is, so its `[n]` numbers stay valid; new
+ * sources are numbered after it.
+ */
+export function appendSources(allSources: GroundingChunk[], added: GroundingChunk[], filter: DomainFilter = getDomainFilter()): GroundingChunk[] {
+  const known = new Set(allSources.map(sourceKey));
+  const fresh = added.filter(s => isSourceAllowed(s, filter) && !known.has(sourceKey(s)));
+  return [...allSources, ...Array.from(new Map(fresh.map(s => [sourceKey(s), s])).values())];
+}
@@ -0,0 +1,93 @@
+/**
+ * Helpers for consuming streamed LLM responses.
+ * Ollama streams NDJSON, MiniMax streams Server-Sent Events; both are read
+ * line by line from the fetch body.
+ */
+
+/**
+ * Marker line separating the executive summary from the deep dive in
+ * streamed synthesis output.
+ */
+export const SYNTHESIS_DIVIDER = "===DEEP DIVE===";
+
+/**
+ * Yields complete lines from a streaming fetch response body.
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        if (line.trim()) yield line;
+        newline = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parses a newline-delimited JSON stream (e.g. Ollama's /api/generate).
+ */
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    yield JSON.parse(line) as T;
+  }
+}
+
+/**
+ * Parses the `data:` payloads of a Server-Sent Events stream
+ * (e.g. MiniMax chatcompletion_v2 with `stream: true`).
+ */
+export async function* readSse<T>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith("data:")) continue;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === "[DONE]") continue;
+    yield JSON.parse(payload) as T;
+  }
+}
+
+/**
+ * Drives a stream to completion, forwarding each delta to `onDelta`,
+ * and returns the generator's final value.
+ */
+export async function drainStream<T, R>(stream: AsyncGenerator<T, R>, onDelta: (delta: T) => void): Promise<R> {
+  while (true) {
+    const next = await stream.next();
+    if (next.done) return next.value as R;
+    onDelta(next.value as T);
+  }
+}
+
+/**
+ * Splits (possibly partial) streamed synthesis text into its summary and
+ * deep dive parts. Before the divider arrives everything is summary.
+ */
+export function splitSynthesis(text: string): { summary: string; deepDive: string } {
+  const index = text.indexOf(SYNTHESIS_DIVIDER);
+  if (index === -1) {
+    return { summary: text.trim(), deepDive: "" };
+  }
+  return {
+    summary: text.slice(0, index).trim(),
+    deepDive: text.slice(index + SYNTHESIS_DIVIDER.length).trim(),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Tavily search adapter.
+ */
+import { ISearchProvider, SearchSettings, TavilySearchResult } from "./ISearchProvider";
+import { HttpError } from "./retry";
+
+export const tavilySearch: ISearchProvider = {
+  id: "tavily",
+  name: "Tavily",
+  description: "Hosted search API built for LLM agents, requires an API key",
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  defaultBaseUrl: "https://api.tavily.com",
+
+  async search(searchTerm: string, maxResults: number, settings: SearchSettings, signal?: AbortSignal): Promise<TavilySearchResult[]> {
+    const key = settings.apiKey || process.env.TAVILY_API_KEY || "";
+    if (!key) {
+      throw new Error("TAVILY_API_KEY is not configured");
+    }
+
+    const searchPayload = {
+      api_key: key,
+      query: searchTerm,
+      search_depth: "basic",
+      max_results: maxResults,
+      include_answer: true,
+      include_raw_content: false,
+      include_images: false,
+    };
+
+    const baseUrl = (settings.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/search`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(searchPayload),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new HttpError(response.status, `Tavily search failed: ${error}`);
+    }
+
+    const data = await response.json();
+
+    return (data.results || []).map((r: any) => ({
+      url: r.url || "",
+      title: r.title || "",
+      content: r.content || "",
+      publishedDate: r.published_date || undefined,
+    }));
+  },
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getActiveTemplate, getTemplate, limitPlan, planInstructions, stepInstructions } from './templates';
+import { renderPrompt } from './prompts';
+
+const useTemplate = (researchTemplate: string) =>
+  localStorage.setItem('insightflow_provider_config', JSON.stringify({ provider: 'gemini', researchTemplate }));
+
+describe('research templates', () => {
+  it('caps a plan at the template maximum and leaves shorter plans alone', () => {
+    const plan = ['a', 'b', 'c', 'd', 'e', 'f'].map(query => ({ query }));
+
+    expect(limitPlan(plan, getTemplate('general')).map(p => p.query)).toEqual(['a', 'b', 'c', 'd']);
+    expect(limitPlan(plan.slice(0, 2), getTemplate('general'))).toHaveLength(2);
+  });
+
+  it('falls back to the default template for unknown ids', () => {
+    expect(getTemplate('missing').id).toBe('general');
+    expect(getActiveTemplate().id).toBe('general');
+  });
+
+  it('words the step count as a range or a single number', () => {
+    expect(planInstructions(getTemplate('general'))).toBe('Break down complex queries into 3-4 distinct research steps/sub-questions for deep analysis.');
+    expect(planInstructions(getTemplate('market'))).toMatch(/^Break down complex queries into 5 distinct research steps\/sub-questions for deep analysis\. Cover market size/);
+    expect(stepInstructions(getTemplate('general'))).toBe('');
+  });
+
+  it('renders the active template into the planning, step and synthesis prompts', () => {
+    useTemplate('literature');
+    const template = getTemplate('literature');
+
+    expect(renderPrompt('plan.system')).toContain(planInstructions(template));
+    expect(renderPrompt('step.system')).toMatch(/Cite information appropriately in your analysis\.\nFocus on peer-reviewed studies/);
+    expect(renderPrompt('synthesis.system')).toContain('## Key Studies');
+  });
+});
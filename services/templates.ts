@@ -0,0 +1,141 @@
+/**
+ * Research templates.
+ * A template shapes a whole run: how the query is broken down into steps and
+ * how many, what each step should look for, and the outline of the final
+ * report. Every provider builds its prompts from the active template, so the
+ * selected mode behaves the same regardless of the model behind it.
+ */
+
+export interface ResearchTemplate {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;                         // Font Awesome icon class
+  steps: { min: number; max: number };  // Number of research steps to plan
+  planning: string;                     // Extra planning instructions ('' for none)
+  stepFocus: string;                    // Extra instructions for each step's analysis
+  outline: string;                      // Required structure of the deep dive
+}
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+export const RESEARCH_TEMPLATES: ResearchTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'General Research',
+    description: 'Open-ended deep analysis of any topic',
+    icon: 'fa-magnifying-glass',
+    steps: { min: 3, max: 4 },
+    planning: '',
+    stepFocus: '',
+    outline: 'The deep dive should be thorough, well-structured with headers, and include all key findings.'
+  },
+  {
+    id: 'market',
+    name: 'Market Analysis',
+    description: 'Market size, segments, competition, SWOT and outlook',
+    icon: 'fa-chart-line',
+    steps: { min: 5, max: 5 },
+    planning: 'Cover market size and growth, customer segments and demand drivers, the competitive landscape, regulation and risks, and emerging trends.',
+    stepFocus: 'Prioritise quantitative data such as market size, growth rates, market shares and prices, and state the year of every figure.',
+    outline: `Structure the deep dive with exactly these sections:
+## Market Overview (size, growth rate and forecast, with figures)
+## Segments and Customers
+## Competitive Landscape (a Markdown table of the main players with their share, positioning and strengths)
+## SWOT Analysis (a Markdown table with the columns "Strengths", "Weaknesses", "Opportunities" and "Threats")
+## Trends and Outlook
+## Key Takeaways (a bulleted list)`
+  },
+  {
+    id: 'literature',
+    name: 'Literature Review',
+    description: 'Key studies, consensus, debates and research gaps',
+    icon: 'fa-book-open',
+    steps: { min: 4, max: 4 },
+    planning: 'Cover the foundational work, the current state of research, competing findings or methodological debates, and open questions.',
+    stepFocus: 'Focus on peer-reviewed studies, reviews and preprints; for each one, note the authors, year, method and main finding.',
+    outline: `Structure the deep dive with exactly these sections:
+## Scope and Background
+## Key Studies (a Markdown table with the columns "Study", "Year", "Method" and "Main Finding")
+## Themes and Consensus
+## Debates and Contradictions
+## Research Gaps
+## Conclusion`
+  },
+  {
+    id: 'competitor',
+    name: 'Competitor Comparison',
+    description: 'Side-by-side comparison matrix with pros and cons',
+    icon: 'fa-scale-balanced',
+    steps: { min: 4, max: 5 },
+    planning: 'Start with a step identifying the main competitors, then research their products, pricing, customers and strategy, and finish with a step comparing them directly.',
+    stepFocus: 'Collect concrete, comparable facts: features, pricing, target customers, market position and recent moves.',
+    outline: `Structure the deep dive with exactly these sections:
+## Competitors at a Glance
+## Comparison Matrix (a Markdown table with one row per criterion and one column per competitor)
+## Pros and Cons (for each competitor, a "Pros" list and a "Cons" list)
+## Positioning and Differentiation
+## Recommendation`
+  },
+  {
+    id: 'factcheck',
+    name: 'Fact Check',
+    description: 'Verdict on a claim with evidence for and against',
+    icon: 'fa-clipboard-check',
+    steps: { min: 3, max: 4 },
+    planning: 'Split the statement into its individual checkable claims, one step each, plus one step tracing the original source and context of the statement.',
+    stepFocus: 'Look for primary sources and for evidence both supporting and contradicting the claim, and point out where sources disagree.',
+    outline: `Structure the deep dive with exactly these sections:
+## The Claim (the statement being checked, in neutral wording)
+## Verdict (one of True, Mostly True, Mixed, Mostly False, False or Unverifiable, with a one-sentence rationale)
+## Claim-by-Claim Findings (a Markdown table with the columns "Claim", "Verdict" and "Evidence")
+## Evidence For
+## Evidence Against
+## Context and Caveats
+State the verdict in the executive summary as well.`
+  }
+];
+
+export function getTemplate(id?: string): ResearchTemplate {
+  return RESEARCH_TEMPLATES.find(t => t.id === id) || RESEARCH_TEMPLATES[0];
+}
+
+/**
+ * Template selected in the saved provider config.
+ */
+export function getActiveTemplate(): ResearchTemplate {
+  try {
+    const config = localStorage.getItem('insightflow_provider_config');
+    if (config) return getTemplate(JSON.parse(config).researchTemplate);
+  } catch (e) {
+    console.error('Error loading research template:', e);
+  }
+  return getTemplate();
+}
+
+/**
+ * Planning instruction for a template, e.g. "Break down complex queries into
+ * 3-4 distinct research steps/sub-questions for deep analysis."
+ */
+export function planInstructions(template: ResearchTemplate): string {
+  const { min, max } = template.steps;
+  const count = min === max ? `${min}` : `${min}-${max}`;
+  const base = `Break down complex queries into ${count} distinct research steps/sub-questions for deep analysis.`;
+  return template.planning ? `${base} ${template.planning}` : base;
+}
+
+/**
+ * Caps a parsed plan at the template's maximum step count; models do not
+ * always stick to the number asked for. Plans short of the minimum are
+ * topped up with `padPlan` (see planReview.ts).
+ */
+export function limitPlan<T>(plan: T[], template: ResearchTemplate): T[] {
+  return plan.slice(0, template.steps.max);
+}
+
+/**
+ * Extra step instruction appended to step analysis prompts ('' for none).
+ */
+export function stepInstructions(template: ResearchTemplate): string {
+  return template.stepFocus ? `\n${template.stepFocus}` : '';
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { verifyReport } from './verification';
+import { IAIService } from './IAIService';
+import { GroundingChunk, ResearchStep } from '../types';
+import { mergeSources } from './sources';
+
+const source = (uri: string): GroundingChunk => ({ web: { uri, title: uri } });
+
+const steps: ResearchStep[] = [
+  { id: 'step-0', query: 'alpha', status: 'completed', result: 'Alpha findings [1].', sources: [source('https://a.example')] },
+  { id: 'step-1', query: 'beta', status: 'completed', result: 'Beta findings [1].', sources: [source('https://b.example')] }
+];
+const allSources = mergeSources(steps);
+
+/**
+ * Answers claim extraction with `claims` and every judge call with `judge`,
+ * recording the judge prompts.
+ */
+function fakeService(claims: object[], judge: (prompt: string) => string): IAIService & { judgePrompts: string[] } {
+  const judgePrompts: string[] = [];
+  return {
+    judgePrompts,
+    generateText: async (_system: string, user: string) => {
+      if (user.startsWith('Report:')) return JSON.stringify(claims);
+      judgePrompts.push(user);
+      return judge(user);
+    },
+    getProviderName: () => 'Fake'
+  } as unknown as IAIService & { judgePrompts: string[] };
+}
+
+describe('verifyReport', () => {
+  it('judges each claim against the findings of the steps behind its citations', async () => {
+    const service = fakeService(
+      [{ claim: 'Alpha holds', sentence: 'Alpha holds [1].' }, { claim: 'Beta holds', sentence: 'Beta holds [2].' }],
+      prompt => JSON.stringify([{ id: prompt.includes('c1:') ? 'c1' : 'c2', verdict: 'supported', confidence: 0.9 }])
+    );
+
+    const report = await verifyReport(service, 'Alpha holds [1]. Beta holds [2].', steps, allSources);
+
+    expect(service.judgePrompts).toHaveLength(2);
+    expect(service.judgePrompts[0]).toContain('Alpha findings [1].');
+    expect(service.judgePrompts[0]).not.toContain('Beta findings');
+    expect(service.judgePrompts[1]).toContain('Beta findings [2].');
+    expect(service.judgePrompts[1]).not.toContain('Alpha findings');
+    expect(report.claims.map(c => c.verdict)).toEqual(['supported', 'supported']);
+  });
+
+  it('checks claims without citations against every step', async () => {
+    const service = fakeService([{ claim: 'Both hold', sentence: 'Both hold.' }], () => '[]');
+
+    await verifyReport(service, 'Both hold.', steps, allSources);
+
+    expect(service.judgePrompts[0]).toContain('Alpha findings');
+    expect(service.judgePrompts[0]).toContain('Beta findings');
+  });
+
+  it('marks claims unverified when the judge answer cannot be parsed', async () => {
+    const service = fakeService([{ claim: 'Alpha holds', sentence: 'Alpha holds [1].' }], () => 'I cannot answer that.');
+
+    const report = await verifyReport(service, 'Alpha holds [1].', steps, allSources);
+
+    expect(report.claims[0]).toMatchObject({ verdict: 'unverified', confidence: 0 });
+    expect(report).toMatchObject({ supported: 0, unsupported: 0, unverified: 1 });
+  });
+
+  it('marks claims the judge skipped as unverified', async () => {
+    const service = fakeService(
+      [{ claim: 'Alpha holds', sentence: 'Alpha holds [1].' }, { claim: 'Alpha is old', sentence: 'Alpha is old [1].' }],
+      () => JSON.stringify([{ id: 'c1', verdict: 'contradicted', confidence: 0.8 }, { id: 'c2', verdict: 'maybe' }])
+    );
+
+    const report = await verifyReport(service, 'Alpha holds [1]. Alpha is old [1].', steps, allSources);
+
+    expect(report.claims.map(c => c.verdict)).toEqual(['contradicted', 'unverified']);
+    expect(report).toMatchObject({ contradicted: 1, unverified: 1 });
+  });
+
+  it('judges claims against the text of the cited sources', async () => {
+    const withExcerpts: ResearchStep[] = [
+      { ...steps[0], sources: [{ ...source('https://a.example'), excerpt: 'Alpha output doubled in 2024.' }] },
+      steps[1]
+    ];
+    const service = fakeService(
+      [{ claim: 'Alpha output doubled in 2024', sentence: 'Alpha output doubled in 2024 [1].' }],
+      prompt => JSON.stringify([{ id: 'c1', verdict: prompt.includes('Alpha output doubled in 2024.') ? 'supported' : 'unsupported', confidence: 0.9 }])
+    );
+
+    const report = await verifyReport(service, 'Alpha output doubled in 2024 [1].', withExcerpts, mergeSources(withExcerpts));
+
+    expect(service.judgePrompts[0]).toContain('Source excerpts:\n[1] https://a.example\nAlpha output doubled in 2024.');
+    expect(report.claims[0].verdict).toBe('supported');
+  });
+
+  it('shortens long excerpts to keep the evidence within its budget', async () => {
+    const withExcerpts: ResearchStep[] = [
+      { ...steps[0], sources: [{ ...source('https://a.example'), excerpt: 'x'.repeat(50000) }] }
+    ];
+    const service = fakeService([{ claim: 'Alpha holds', sentence: 'Alpha holds [1].' }], () => '[]');
+
+    await verifyReport(service, 'Alpha holds [1].', withExcerpts, mergeSources(withExcerpts));
+
+    expect(service.judgePrompts[0].length).toBeLessThan(26000);
+    expect(service.judgePrompts[0]).toContain('[excerpt shortened]');
+    expect(service.judgePrompts[0]).toContain('Alpha findings [1].');
+  });
+});
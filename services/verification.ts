@@ -0,0 +1,236 @@
+/**
+ * Claim-level fact verification.
+ * After synthesis, the deep dive is split into atomic claims and each claim is
+ * checked against the findings of the research steps and the text of their
+ * sources, so statements the research does not back up are flagged instead of
+ * silently trusted.
+ */
+import { IAIService } from "./IAIService";
+import { GroundingChunk, ResearchStep, VerifiedClaim, VerificationReport, ClaimVerdict } from "../types";
+import { CITATION_PATTERN, formatResearchData } from "./citations";
+import { sourceKey, sourceLabel } from "./sources";
+import { throwIfAborted } from "./abort";
+import { renderPrompt } from "./prompts";
+
+export const MAX_CLAIMS = 20;
+
+/**
+ * Claims judged per model call.
+ */
+const CLAIMS_PER_BATCH = 8;
+
+/**
+ * Upper bound for the evidence sent with every batch, in characters. Longer
+ * evidence is shortened evenly across step findings and source excerpts,
+ * with a visible marker.
+ */
+const MAX_EVIDENCE_CHARS = 24000;
+
+/**
+ * Verdicts the judge may return; `unverified` is only assigned here, when the
+ * judge gave no usable verdict.
+ */
+const VERDICTS: ClaimVerdict[] = ['supported', 'contradicted', 'unsupported'];
+
+const VERDICT_LABELS: Record<ClaimVerdict, string> = {
+  supported: 'Supported',
+  contradicted: 'Contradicted',
+  unsupported: 'Unsupported',
+  unverified: 'Unverified'
+};
+
+type Claim = { id: string; claim: string; sentence: string };
+
+function parseJsonArray(response: string): any[] {
+  const jsonMatch = response.match(/\[[\s\S]*\]/);
+  const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+/**
+ * Asks the model to split the report into atomic, checkable factual claims,
+ * each with the sentence it was taken from.
+ */
+export async function extractClaims(
+  service: IAIService,
+  deepDive: string,
+  maxClaims: number = MAX_CLAIMS,
+  signal?: AbortSignal
+): Promise<{ claim: string; sentence: string }[]> {
+  const systemPrompt = renderPrompt('verification.extract.system', { maxClaims: String(maxClaims) });
+  const userPrompt = renderPrompt('verification.extract.user', { report: deepDive });
+  const response = await service.generateText(systemPrompt, userPrompt, { temperature: 0.2, json: true, signal });
+
+  try {
+    return parseJsonArray(response)
+      .filter((c: any) => typeof c?.claim === 'string' && c.claim.trim())
+      .map((c: any) => ({ claim: c.claim.trim(), sentence: typeof c.sentence === 'string' ? c.sentence.trim() : '' }))
+      .slice(0, maxClaims);
+  } catch (e) {
+    console.error("Failed to parse extracted claims", e);
+    return [];
+  }
+}
+
+/**
+ * Evidence behind a claim: the sources its sentence cites and the steps that
+ * used them. Claims without valid citations are checked against every step
+ * and source.
+ */
+function claimEvidence(claim: Claim, steps: ResearchStep[], allSources: GroundingChunk[]): { steps: ResearchStep[]; sources: GroundingChunk[] } {
+  const cited = Array.from(new Set(
+    [...claim.sentence.matchAll(CITATION_PATTERN)]
+      .flatMap(match => match[1].split(',').map(n => allSources[parseInt(n.trim(), 10) - 1]))
+      .filter((source): source is GroundingChunk => !!source)
+  ));
+  const keys = new Set(cited.map(sourceKey));
+  const citing = steps.filter(s => (s.sources || []).some(source => keys.has(sourceKey(source))));
+  return citing.length > 0 ? { steps: citing, sources: cited } : { steps, sources: allSources };
+}
+
+function shorten(text: string, limit: number, marker: string): string {
+  return text.length > limit ? `${text.slice(0, limit)} [${marker} shortened]` : text;
+}
+
+/**
+ * Findings of the given steps under global citation numbers, followed by the
+ * text the search backend or page reader returned for the sources. If they
+ * exceed the budget, each finding and excerpt is shortened to an equal share
+ * and marked, so the judge knows the evidence is incomplete.
+ */
+function formatEvidence(steps: ResearchStep[], sources: GroundingChunk[], allSources: GroundingChunk[], share = Infinity): string {
+  const index = new Map(allSources.map((source, i) => [sourceKey(source), i + 1]));
+  const findings = formatResearchData(steps.map(s => (s.result || '').length > share
+    ? { ...s, result: shorten(s.result!, share, 'findings') }
+    : s
+  ), allSources);
+  const excerpts = sources
+    .filter(s => s.excerpt)
+    .map(s => `[${index.get(sourceKey(s))}] ${sourceLabel(s)}\n${shorten(s.excerpt!, share, 'excerpt')}`);
+  const evidence = excerpts.length > 0 ? `${findings}\n\n---\n\nSource excerpts:\n${excerpts.join("\n\n")}` : findings;
+
+  if (evidence.length <= MAX_EVIDENCE_CHARS || share !== Infinity) return evidence;
+  return formatEvidence(steps, sources, allSources, Math.floor(MAX_EVIDENCE_CHARS / (steps.length + excerpts.length)));
+}
+
+/**
+ * Judges a batch of claims against the evidence. Claims the model gives no
+ * usable verdict for, or all of them if its answer cannot be parsed, are
+ * reported as unverified rather than given a verdict.
+ */
+async function judgeClaims(
+  service: IAIService,
+  claims: Claim[],
+  evidence: string,
+  signal?: AbortSignal
+): Promise<VerifiedClaim[]> {
+  const systemPrompt = renderPrompt('verification.judge.system');
+  const userPrompt = renderPrompt('verification.judge.user', {
+    findings: evidence,
+    claims: claims.map(c => `${c.id}: ${c.claim}`).join("\n")
+  });
+
+  const response = await service.generateText(systemPrompt, userPrompt, { temperature: 0, json: true, signal });
+
+  let judgements: any[];
+  try {
+    judgements = parseJsonArray(response);
+  } catch (e) {
+    console.error("Failed to parse claim verdicts", e);
+    return claims.map(c => ({ ...c, verdict: 'unverified', confidence: 0, explanation: 'The verifier returned an answer that could not be read.' }));
+  }
+
+  return claims.map(c => {
+    const judgement = judgements.find((j: any) => String(j?.id) === c.id);
+    if (!VERDICTS.includes(judgement?.verdict)) {
+      return { ...c, verdict: 'unverified', confidence: 0, explanation: 'The verifier returned no verdict for this claim.' };
+    }
+    const confidence = Number(judgement.confidence);
+    return {
+      ...c,
+      verdict: judgement.verdict,
+      confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0,
+      explanation: typeof judgement.explanation === 'string' ? judgement.explanation : undefined
+    };
+  });
+}
+
+/**
+ * Extracts the claims of a report and verifies each against the sources it
+ * cites and the findings of the steps behind them. Claims with the same
+ * evidence are judged together.
+ */
+export async function verifyReport(
+  service: IAIService,
+  deepDive: string,
+  steps: ResearchStep[],
+  allSources: GroundingChunk[],
+  signal?: AbortSignal
+): Promise<VerificationReport> {
+  const extracted = await extractClaims(service, deepDive, MAX_CLAIMS, signal);
+  const claims: Claim[] = extracted.map((c, i) => ({ id: `c${i + 1}`, ...c }));
+
+  const groups = new Map<string, { steps: ResearchStep[]; sources: GroundingChunk[]; claims: Claim[] }>();
+  claims.forEach(claim => {
+    const evidence = claimEvidence(claim, steps, allSources);
+    const key = `${evidence.steps.map(s => s.id).join(',')}|${evidence.sources.map(sourceKey).join(',')}`;
+    const group = groups.get(key) || { ...evidence, claims: [] };
+    group.claims.push(claim);
+    groups.set(key, group);
+  });
+
+  const verdicts = new Map<string, VerifiedClaim>();
+  for (const group of groups.values()) {
+    const evidence = formatEvidence(group.steps, group.sources, allSources);
+    for (let i = 0; i < group.claims.length; i += CLAIMS_PER_BATCH) {
+      throwIfAborted(signal);
+      const judged = await judgeClaims(service, group.claims.slice(i, i + CLAIMS_PER_BATCH), evidence, signal);
+      judged.forEach(c => verdicts.set(c.id, c));
+    }
+  }
+
+  const verified = claims.map(c => verdicts.get(c.id)!);
+  return {
+    claims: verified,
+    supported: verified.filter(c => c.verdict === 'supported').length,
+    contradicted: verified.filter(c => c.verdict === 'contradicted').length,
+    unsupported: verified.filter(c => c.verdict === 'unsupported').length,
+    unverified: verified.filter(c => c.verdict === 'unverified').length
+  };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\[\d+\]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Claims whose source sentence appears in the given line of the report.
+ * Matching ignores case, punctuation and citation markers, since models do
+ * not always copy sentences verbatim.
+ */
+export function findClaimsForLine(line: string, claims: VerifiedClaim[]): VerifiedClaim[] {
+  const normalizedLine = normalize(line);
+  if (!normalizedLine) return [];
+  return claims.filter(c => {
+    const sentence = normalize(c.sentence);
+    return sentence.length > 0 && normalizedLine.includes(sentence);
+  });
+}
+
+/**
+ * Markdown section summarising the verification for exports. Empty if
+ * verification did not run.
+ */
+export function formatVerificationNote(report?: VerificationReport): string {
+  if (!report) return '';
+
+  const flagged = report.claims.filter(c => c.verdict !== 'supported');
+  const lines = flagged.map(c =>
+    `- **${VERDICT_LABELS[c.verdict]}**${c.verdict === 'unverified' ? '' : ` (${Math.round(c.confidence * 100)}% confidence)`}: ${c.claim}${c.explanation ? ` (${c.explanation})` : ''}`
+  );
+  const unverified = report.unverified ? `, ${report.unverified} unverified` : '';
+
+  return `## Claim Verification
+${report.claims.length} claims checked: ${report.supported} supported, ${report.contradicted} contradicted, ${report.unsupported} unsupported${unverified}.
+${lines.length > 0 ? `\n${lines.join('\n')}\n` : ''}`;
+}
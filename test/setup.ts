@@ -0,0 +1,40 @@
+/**
+ * Test environment setup.
+ * Services read their settings from localStorage, which Node does not have;
+ * an in-memory implementation is installed and cleared before each test.
+ */
+import { beforeEach } from 'vitest';
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+globalThis.localStorage = new MemoryStorage();
+
+beforeEach(() => {
+  localStorage.clear();
+});
@@ -3,15 +3,58 @@ export interface GroundingChunk {
   web?: {
     uri: string;
     title: string;
+    publishedDate?: string; // Set when the search backend reports one
   };
+  document?: {
+    documentId: string;
+    fileName: string;
+    page?: number; // 1-based; only set for paginated formats such as PDF
+  };
+  credibility?: SourceCredibility; // Added when the report is assembled
+  excerpt?: string; // Text the search backend, page reader or corpus returned; evidence for claim verification
+}
+
+export type SourceCategory = 'academic' | 'government' | 'reference' | 'news' | 'corporate' | 'blog' | 'social' | 'document' | 'unknown';
+
+export interface SourceCredibility {
+  score: number;          // 0-100
+  category: SourceCategory;
+  ageYears?: number;      // Age of the publication, if a date is known
+  citedBySteps: number;   // Research steps that used this source or its domain
 }
 
 export interface ResearchStep {
   id: string;
   query: string;
-  status: 'pending' | 'searching' | 'analyzing' | 'completed' | 'failed';
+  status: 'pending' | 'searching' | 'analyzing' | 'completed' | 'failed' | 'cancelled';
   result?: string;
   sources?: GroundingChunk[];
+  error?: string;       // Set when the step failed after all retries
+  retryCount?: number;  // Retries used so far for transient errors
+  parentId?: string;    // Set for follow-up steps generated in deep mode
+  depth?: number;       // 0 for steps from the initial plan
+  startedAt?: number;   // Epoch ms when the last attempt started
+  completedAt?: number; // Epoch ms when the step completed or failed
+  blockedPassages?: number; // Grounded passages cut from the result because they cited a blocked domain
+}
+
+export type ClaimVerdict = 'supported' | 'contradicted' | 'unsupported' | 'unverified';
+
+export interface VerifiedClaim {
+  id: string;
+  claim: string;        // Atomic statement extracted from the deep dive
+  sentence: string;     // Sentence of the deep dive the claim was taken from
+  verdict: ClaimVerdict;
+  confidence: number;   // 0-1, the model's confidence in the verdict
+  explanation?: string;
+}
+
+export interface VerificationReport {
+  claims: VerifiedClaim[];
+  supported: number;
+  contradicted: number;
+  unsupported: number;
+  unverified?: number;  // Claims the verifier gave no usable verdict for; missing in older reports
 }
 
 export interface AnalysisResult {
@@ -19,26 +62,83 @@ export interface AnalysisResult {
   deepDive: string;
   steps: ResearchStep[];
   allSources: GroundingChunk[];
+  verification?: VerificationReport; // Set when claim verification ran
+  startedAt?: number;   // Epoch ms when research (or its resumption) started
+  completedAt?: number; // Epoch ms when the report was finished
+  prompts?: Record<string, string>; // Prompt name to version the report was produced with
+}
+
+export interface ReportChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  question?: string;          // For answers: the question they reply to
+  step?: ResearchStep;        // For answers: extra research run to answer the question
+  sources?: GroundingChunk[]; // For answers: source index their [n] citations refer to
+  folded?: boolean;           // Set once the answer was added to the report
+}
+
+export interface HistoryEntry {
+  id: string;
+  title: string;        // Defaults to the query; can be renamed
+  query: string;
+  provider: ProviderType;
+  model: string;        // Provider and model as shown in the UI
+  createdAt: number;
+  updatedAt: number;
+  result: AnalysisResult; // Includes the plan, step results and sources
 }
 
 export enum AppState {
   IDLE = 'IDLE',
   PLANNING = 'PLANNING',
+  REVIEWING = 'REVIEWING',
   RESEARCHING = 'RESEARCHING',
   SYNTHESIZING = 'SYNTHESIZING',
+  VERIFYING = 'VERIFYING',
   COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
   ERROR = 'ERROR'
 }
 
-export type ProviderType = 'gemini' | 'minimax' | 'ollama';
+export type CorpusMode = 'web' | 'corpus' | 'both';
+
+export type EmbeddingProviderType = 'ollama' | 'gemini' | 'openai';
+
+export type ProviderType = 'gemini' | 'minimax' | 'ollama' | 'openai' | 'anthropic';
 
 export interface ProviderConfig {
   provider: ProviderType;
-  apiKey: string;
+  apiKeys?: Partial<Record<ProviderType, string>>; // API key per provider (see services/providerKeys.ts)
   groupId?: string; // For MiniMax
   model?: string;   // For Ollama base URL
   ollamaModel?: string; // For Ollama model selection
   minimaxModel?: string; // For MiniMax model selection
-  searchApiKey?: string; // For Tavily
+  openaiBaseUrl?: string; // For OpenAI-compatible endpoints
+  openaiModel?: string; // For OpenAI-compatible model name
+  anthropicBaseUrl?: string; // For Anthropic Messages API endpoint
+  anthropicModel?: string; // For Anthropic model name
+  searchProvider?: string; // Search backend id from the search registry (default: tavily)
+  searchApiKey?: string; // For Tavily / Brave
+  searchBaseUrl?: string; // SearXNG instance or search API proxy URL
+  pageReaderEnabled?: boolean; // Fetch full pages of top results
+  pageReaderProxyUrl?: string; // CORS proxy prefix or template with {url}
+  corpusMode?: CorpusMode; // Whether steps search the web, local documents, or both
+  rerankEnabled?: boolean; // Rerank retrieved passages by embedding similarity
+  embeddingProvider?: EmbeddingProviderType; // Embedding endpoint used for reranking
+  embeddingModel?: string; // Embedding model name (provider default if empty)
+  embeddingBaseUrl?: string; // Overrides the Ollama / OpenAI-compatible base URL for embeddings
+  embeddingApiKey?: string; // Falls back to the main API key
+  rerankTopK?: number; // Passages kept after reranking
+  rerankTokenBudget?: number; // Approximate token budget for kept passages
+  maxConcurrentSteps?: number; // Research steps run in parallel
+  researchDepth?: number; // Levels of follow-up questions (0 = off)
+  researchBreadth?: number; // Follow-up questions per step
+  maxResearchSteps?: number; // Total step budget in deep mode
+  reviewPlan?: boolean; // Pause for plan review before research starts
+  verifyClaims?: boolean; // Check report claims against the step findings
+  domainAllowList?: string; // Domains (one per line or comma-separated); when set, only these are searched
+  domainBlockList?: string; // Domains whose results are dropped before they reach the model
+  researchTemplate?: string; // Research template id (see services/templates.ts)
   isValid: boolean;
 }